@@ -0,0 +1,15 @@
+import type { ConfigContext, ExpoConfig } from 'expo/config';
+
+// Extends app.json with settings that must not be committed.
+// GOOGLE_MAPS_API_KEY: Maps SDK for Android key for the Map tab (iOS uses Apple Maps).
+// Set it in the shell, in rider-app/.env.local or as an EAS environment variable.
+export default ({ config }: ConfigContext): ExpoConfig => ({
+  ...(config as ExpoConfig),
+  android: {
+    ...config.android,
+    config: {
+      ...config.android?.config,
+      googleMaps: { apiKey: process.env.GOOGLE_MAPS_API_KEY },
+    },
+  },
+});
@@ -1,109 +1,60 @@
-import React, { useState, useEffect } from 'react';
-import { StyleSheet, View, Text, ScrollView, TouchableOpacity, Linking, Alert, RefreshControl } from 'react-native';
-import { supabase } from '../../supabaseClient';
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
-import { getGoogleMapsLink, formatCoordinates } from '@/services/locationService';
-
-interface OrderWithLocation {
-  id: string;
-  customer_name: string;
-  address: string;
-  cod_amount: number;
-  status: string;
-  payment_method: string | null;
-  delivery_latitude: number | null;
-  delivery_longitude: number | null;
-  delivery_timestamp: string | null;
-  created_at: string;
-}
+import {
+  selectActiveOrders,
+  selectActiveWithDestination,
+  selectTodaysCompletedWithLocation,
+  useOrders,
+  useOrdersSelector
+} from '@/contexts/OrdersContext';
+import { getOrderStatusColor } from '@/constants/orderStatus';
+import DeliveryMap, { type MapPin } from '@/components/DeliveryMap';
+
+// Statuses shown in the legend, in delivery order
+const LEGEND_STATUSES = ['PENDING', 'EN_ROUTE', 'ARRIVED', 'COMPLETED'];
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
 
 export default function ExploreScreen() {
-  const [completedOrders, setCompletedOrders] = useState<OrderWithLocation[]>([]);
-  const [loading, setLoading] = useState(true);
+  const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
   const { user } = useAuth();
-
-  useEffect(() => {
-    if (user?.id) {
-      fetchCompletedOrdersWithLocation();
-    }
-
-    // Set up real-time subscription to listen for completed orders
-    const subscription = supabase
-      .channel('public:orders:explore')
-      .on('postgres_changes', { 
-        event: '*', 
-        schema: 'public', 
-        table: 'orders',
-        filter: `rider_id=eq.${user?.id}`
-      }, 
-      (payload: any) => {
-        console.log('Order updated in Map tab:', payload);
-        // Refresh the list when any order changes
-        if (user?.id) {
-          fetchCompletedOrdersWithLocation();
-        }
-      })
-      .subscribe();
-
-    return () => { 
-      supabase.removeChannel(subscription); 
-    };
-  }, [user?.id]);
-
-  const fetchCompletedOrdersWithLocation = async (isRefreshing = false) => {
-    if (!user?.id) return;
-
-    if (isRefreshing) {
-      setRefreshing(true);
-    } else {
-      setLoading(true);
-    }
-    
-    try {
-      // Fetch completed orders that have GPS coordinates
-      const { data, error } = await supabase
-        .from('orders')
-        .select('*')
-        .eq('rider_id', user.id)
-        .eq('status', 'COMPLETED')
-        .not('delivery_latitude', 'is', null)
-        .not('delivery_longitude', 'is', null)
-        .order('delivery_timestamp', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching orders with location:', error);
-        if (!isRefreshing) {
-          Alert.alert('Error', 'Failed to load delivery locations');
-        }
-      } else {
-        setCompletedOrders(data || []);
-      }
-    } catch (err) {
-      console.error('Fetch error:', err);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
-
-  const onRefresh = () => {
-    fetchCompletedOrdersWithLocation(true);
-  };
-
-  const openInMaps = (latitude: number, longitude: number, customerName: string) => {
-    const mapsUrl = getGoogleMapsLink(latitude, longitude);
-    Linking.openURL(mapsUrl).catch(() => {
-      Alert.alert('Error', 'Could not open maps');
-    });
-  };
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'COMPLETED': return '#10b981';
-      case 'PAID': return '#3b82f6';
-      default: return '#6b7280';
-    }
+  const { loading, refresh } = useOrders();
+  const activeOrders = useOrdersSelector(selectActiveOrders);
+  const activeStops = useOrdersSelector(selectActiveWithDestination);
+  const delivered = useOrdersSelector(selectTodaysCompletedWithLocation);
+
+  const pins = useMemo<MapPin[]>(() => [
+    ...activeStops.map(order => ({
+      id: order.id,
+      latitude: order.destination_latitude!,
+      longitude: order.destination_longitude!,
+      color: getOrderStatusColor(order.status),
+      title: `${order.customer_name} · ₱${order.cod_amount.toFixed(2)}`,
+      description: `${order.status} · ${order.address}`,
+      active: true,
+    })),
+    ...delivered.map(order => ({
+      id: order.id,
+      latitude: order.delivery_latitude!,
+      longitude: order.delivery_longitude!,
+      color: getOrderStatusColor(order.status),
+      title: order.customer_name,
+      description: `Delivered ${formatTime(order.delivery_timestamp ?? order.created_at)} · ${order.address}`,
+      active: false,
+    })),
+  ], [activeStops, delivered]);
+
+  // Active orders whose address hasn't been geocoded can't be placed on the map
+  const unmappedCount = activeOrders.length - activeStops.length;
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
   };
 
   if (!user) {
@@ -115,77 +66,55 @@ export default function ExploreScreen() {
   }
 
   return (
-    <ScrollView 
-      style={styles.container}
-      refreshControl={
-        <RefreshControl
-          refreshing={refreshing}
-          onRefresh={onRefresh}
-          tintColor="#10b981"
-          colors={["#10b981"]}
-        />
-      }
-    >
+    <View style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title}>📍 Delivery Locations</Text>
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>🗺️ Delivery Map</Text>
+          <TouchableOpacity style={styles.refreshButton} onPress={onRefresh} disabled={refreshing}>
+            {refreshing ? (
+              <ActivityIndicator size="small" color="#10b981" />
+            ) : (
+              <Text style={styles.refreshButtonText}>🔄</Text>
+            )}
+          </TouchableOpacity>
+        </View>
         <Text style={styles.subtitle}>
-          {completedOrders.length} completed deliveries with GPS data
+          {activeStops.length} active stops · {delivered.length} delivered today
         </Text>
-      </View>
-
-      {loading ? (
-        <View style={styles.emptyContainer}>
-          <Text style={styles.emptyText}>Loading...</Text>
-        </View>
-      ) : completedOrders.length === 0 ? (
-        <View style={styles.emptyContainer}>
-          <Text style={styles.emptyText}>No completed deliveries with location data yet</Text>
-          <Text style={styles.emptySubtext}>
-            Complete a delivery to see it here!
+        {unmappedCount > 0 && (
+          <Text style={styles.unmappedText}>
+            {unmappedCount} active {unmappedCount === 1 ? 'order has' : 'orders have'} no map location yet
           </Text>
-        </View>
-      ) : (
-        <View style={styles.listContainer}>
-          {completedOrders.map((order) => (
-            <View key={order.id} style={styles.card}>
-              <View style={styles.cardHeader}>
-                <Text style={styles.orderIdText}>Order #{order.id.slice(0, 8)}</Text>
-                <View style={[styles.statusBadge, { backgroundColor: getStatusColor(order.status) }]}>
-                  <Text style={styles.statusText}>{order.status}</Text>
-                </View>
-              </View>
-
-              <View style={styles.infoRow}>
-                <Text style={styles.label}>📍 Address:</Text>
-                <Text style={styles.value}>{order.address}</Text>
-              </View>
-
-              {order.delivery_latitude && order.delivery_longitude && (
-                <TouchableOpacity
-                  style={styles.mapButton}
-                  onPress={() => openInMaps(
-                    order.delivery_latitude!,
-                    order.delivery_longitude!,
-                    order.customer_name
-                  )}
-                >
-                  <Text style={styles.mapButtonText}>🗺️ View on Map</Text>
-                </TouchableOpacity>
-              )}
+        )}
+        <View style={styles.legend}>
+          {LEGEND_STATUSES.map(status => (
+            <View key={status} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: getOrderStatusColor(status) }]} />
+              <Text style={styles.legendText}>{status}</Text>
             </View>
           ))}
         </View>
-      )}
+      </View>
 
-      <View style={styles.footer}>
-        <Text style={styles.footerText}>
-          💡 Tip: GPS coordinates are captured when you complete a delivery
-        </Text>
-        <Text style={styles.footerText}>
-          🔄 Pull down to refresh
-        </Text>
+      <View style={styles.mapContainer}>
+        <DeliveryMap pins={pins} onPinPress={id => router.push(`/order/${id}`)} />
+
+        {loading ? (
+          <View style={styles.overlay}>
+            <ActivityIndicator size="large" color="#10b981" />
+          </View>
+        ) : pins.length === 0 && (
+          <View style={styles.overlay} pointerEvents="none">
+            <View style={styles.emptyCard}>
+              <Text style={styles.emptyText}>Nothing on the map yet</Text>
+              <Text style={styles.emptySubtext}>
+                Active orders appear once their address is located, and today&apos;s deliveries where you completed them.
+              </Text>
+            </View>
+          </View>
+        )}
       </View>
-    </ScrollView>
+    </View>
   );
 }
 
@@ -197,111 +126,86 @@ const styles = StyleSheet.create({
   header: {
     padding: 20,
     paddingTop: 60,
+    paddingBottom: 12,
     backgroundColor: '#fff',
     borderBottomWidth: 1,
     borderBottomColor: '#e5e7eb',
   },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
     color: '#1f2937',
     marginBottom: 4,
   },
-  subtitle: {
-    fontSize: 14,
-    color: '#6b7280',
-  },
-  emptyContainer: {
-    flex: 1,
-    justifyContent: 'center',
+  refreshButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f3f4f6',
     alignItems: 'center',
-    padding: 40,
-    minHeight: 300,
+    justifyContent: 'center',
   },
-  emptyText: {
+  refreshButtonText: {
     fontSize: 16,
-    color: '#6b7280',
-    textAlign: 'center',
-    marginBottom: 8,
   },
-  emptySubtext: {
+  subtitle: {
     fontSize: 14,
-    color: '#9ca3af',
-    textAlign: 'center',
+    color: '#6b7280',
   },
-  listContainer: {
-    padding: 16,
+  unmappedText: {
+    fontSize: 12,
+    color: '#fd7e14',
+    marginTop: 4,
   },
-  card: {
-    backgroundColor: '#fff',
-    borderRadius: 12,
-    padding: 16,
-    marginBottom: 12,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 3,
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 10,
   },
-  cardHeader: {
+  legendItem: {
     flexDirection: 'row',
-    justifyContent: 'space-between',
     alignItems: 'center',
-    marginBottom: 12,
+    marginRight: 12,
+    marginTop: 4,
   },
-  orderIdText: {
-    fontSize: 16,
-    fontWeight: 'bold',
-    color: '#1f2937',
-  },
-  statusBadge: {
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-    borderRadius: 12,
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 4,
   },
-  statusText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: '600',
-  },
-  infoRow: {
-    marginBottom: 8,
-  },
-  label: {
-    fontSize: 12,
+  legendText: {
+    fontSize: 11,
     color: '#6b7280',
-    fontWeight: '600',
-    marginBottom: 2,
   },
-  value: {
-    fontSize: 14,
-    color: '#1f2937',
-  },
-  paymentValue: {
-    fontSize: 14,
-    color: '#059669',
-    fontWeight: '600',
+  mapContainer: {
+    flex: 1,
   },
-  mapButton: {
-    backgroundColor: '#10b981',
-    paddingVertical: 12,
-    paddingHorizontal: 16,
-    borderRadius: 8,
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
     alignItems: 'center',
-    marginTop: 12,
-  },
-  mapButtonText: {
-    color: '#fff',
-    fontSize: 14,
-    fontWeight: '600',
+    padding: 40,
   },
-  footer: {
+  emptyCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    borderRadius: 12,
     padding: 20,
-    alignItems: 'center',
   },
-  footerText: {
-    fontSize: 12,
+  emptyText: {
+    fontSize: 16,
     color: '#6b7280',
     textAlign: 'center',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9ca3af',
+    textAlign: 'center',
   },
 });
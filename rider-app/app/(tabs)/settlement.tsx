@@ -1,7 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useMemo, useState } from 'react';
 import { StyleSheet, View, Text, ScrollView, RefreshControl, TouchableOpacity, Alert } from 'react-native';
-import { supabase } from '../../supabaseClient';
 import { useAuth } from '@/contexts/AuthContext';
+import { type Order, selectTodaysCompleted, useOrders, useOrdersSelector } from '@/contexts/OrdersContext';
+import { logoutMessage, useOfflineQueue } from '@/hooks/use-offline-queue';
 
 interface DailyStats {
   totalDeliveries: number;
@@ -12,106 +13,45 @@ interface DailyStats {
   totalAmount: number;
 }
 
-export default function SettlementScreen() {
-  const [dailyStats, setDailyStats] = useState<DailyStats>({
-    totalDeliveries: 0,
+// Totals for the orders completed today
+function summarizeDailyStats(orders: Order[]): DailyStats {
+  const stats: DailyStats = {
+    totalDeliveries: orders.length,
     qrphCount: 0,
     qrphAmount: 0,
     cashCount: 0,
     cashAmount: 0,
     totalAmount: 0
-  });
-  const [refreshing, setRefreshing] = useState(false);
-  const { user, signOut } = useAuth();
-
-  useEffect(() => {
-    if (user?.id) {
-      fetchDailyStats();
-    }
-
-    // Set up real-time subscription
-    const subscription = supabase
-      .channel('public:orders:settlement')
-      .on('postgres_changes', { 
-        event: '*', 
-        schema: 'public', 
-        table: 'orders',
-        filter: `rider_id=eq.${user?.id}`
-      }, 
-      (payload: any) => {
-        console.log('Order updated in Settlement tab:', payload);
-        if (user?.id) {
-          fetchDailyStats();
-        }
-      })
-      .subscribe();
-
-    return () => { 
-      supabase.removeChannel(subscription); 
-    };
-  }, [user?.id]);
+  };
 
-  const fetchDailyStats = async (isRefreshing = false) => {
-    if (!user?.id) return;
+  orders.forEach(order => {
+    const amount = order.cod_amount || 0;
+    stats.totalAmount += amount;
 
-    if (isRefreshing) {
-      setRefreshing(true);
+    if (order.payment_method === 'QRPH') {
+      stats.qrphCount++;
+      stats.qrphAmount += amount;
+    } else if (order.payment_method === 'CASH') {
+      stats.cashCount++;
+      stats.cashAmount += amount;
     }
-    
-    try {
-      // Get today's date range (start of day to now)
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const todayStart = today.toISOString();
-
-      // Fetch completed orders for today
-      const { data, error } = await supabase
-        .from('orders')
-        .select('*')
-        .eq('rider_id', user.id)
-        .eq('status', 'COMPLETED')
-        .gte('created_at', todayStart);
-
-      if (error) {
-        console.error('Error fetching daily stats:', error);
-        if (!isRefreshing) {
-          Alert.alert('Error', 'Failed to load daily statistics');
-        }
-      } else {
-        // Calculate statistics
-        const stats: DailyStats = {
-          totalDeliveries: data.length,
-          qrphCount: 0,
-          qrphAmount: 0,
-          cashCount: 0,
-          cashAmount: 0,
-          totalAmount: 0
-        };
-
-        data.forEach(order => {
-          const amount = order.cod_amount || 0;
-          stats.totalAmount += amount;
+  });
 
-          if (order.payment_method === 'QRPH') {
-            stats.qrphCount++;
-            stats.qrphAmount += amount;
-          } else if (order.payment_method === 'CASH') {
-            stats.cashCount++;
-            stats.cashAmount += amount;
-          }
-        });
+  return stats;
+}
 
-        setDailyStats(stats);
-      }
-    } catch (err) {
-      console.error('Fetch error:', err);
-    } finally {
-      setRefreshing(false);
-    }
-  };
+export default function SettlementScreen() {
+  const [refreshing, setRefreshing] = useState(false);
+  const { user, signOut } = useAuth();
+  const { refresh } = useOrders();
+  const { unsyncedOrderIds } = useOfflineQueue();
+  const todaysOrders = useOrdersSelector(selectTodaysCompleted);
+  const dailyStats = useMemo(() => summarizeDailyStats(todaysOrders), [todaysOrders]);
 
-  const onRefresh = () => {
-    fetchDailyStats(true);
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
   };
 
   // Get greeting based on time of day
@@ -148,7 +88,7 @@ export default function SettlementScreen() {
             onPress={() => {
               Alert.alert(
                 'Logout',
-                'Are you sure you want to logout?',
+                logoutMessage(unsyncedOrderIds.size),
                 [
                   { text: 'Cancel', style: 'cancel' },
                   { 
@@ -5,7 +5,10 @@ import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useTripTracking } from '@/hooks/use-trip-tracking';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { OrdersProvider } from '@/contexts/OrdersContext';
+import { setupNotificationListeners } from '@/services/notificationService';
 
 // Suppress the keep awake error from expo-splash-screen
 const originalError = console.error;
@@ -25,10 +28,14 @@ function RootLayoutNav() {
   const segments = useSegments();
   const router = useRouter();
 
+  // Background location and arrival geofence while an order is EN_ROUTE
+  useTripTracking();
+
   useEffect(() => {
     if (loading) return;
 
-    const inAuthGroup = segments[0] === '(tabs)';
+    // Order screens (including riderapp://order/<id> links) need a signed-in rider too
+    const inAuthGroup = segments[0] === '(tabs)' || segments[0] === 'order';
 
     if (!user && inAuthGroup) {
       // Redirect to login if not authenticated and trying to access protected routes
@@ -42,6 +49,23 @@ function RootLayoutNav() {
     }
   }, [user, loading, segments]);
 
+  // Open the order a notification is about when it is tapped
+  useEffect(() => {
+    return setupNotificationListeners(
+      (notification) => {
+        // Handle notification received while app is open
+        console.log('Notification received in foreground:', notification);
+      },
+      (response) => {
+        console.log('User tapped notification:', response);
+        const data = response.notification.request.content.data;
+        if (data.orderId) {
+          router.push(`/order/${data.orderId}`);
+        }
+      }
+    );
+  }, [router]);
+
   const colorScheme = useColorScheme();
 
   return (
@@ -50,6 +74,7 @@ function RootLayoutNav() {
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="login" options={{ headerShown: false }} />
         <Stack.Screen name="signup" options={{ headerShown: false }} />
+        <Stack.Screen name="order/[id]" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
       </Stack>
       <StatusBar style="auto" />
@@ -60,7 +85,9 @@ function RootLayoutNav() {
 export default function RootLayout() {
   return (
     <AuthProvider>
-      <RootLayoutNav />
+      <OrdersProvider>
+        <RootLayoutNav />
+      </OrdersProvider>
     </AuthProvider>
   );
 }
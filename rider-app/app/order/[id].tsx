@@ -0,0 +1,1092 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { StyleSheet, Text, View, TouchableOpacity, Alert, ScrollView, ActivityIndicator, Share } from 'react-native';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import * as Linking from 'expo-linking';
+import { supabase } from '../../supabaseClient';
+import QRCode from 'react-native-qrcode-svg';
+import * as ImagePicker from 'expo-image-picker';
+import { type Order, type OrderChange, useOrders } from '@/contexts/OrdersContext';
+import {
+  captureCurrentLocation,
+  distanceMeters,
+  formatCoordinates,
+  formatDistance,
+  getDirectionsLink,
+  isWithinRadius
+} from '@/services/locationService';
+import {
+  type CashFallbackReason,
+  type MarkArrivedInput,
+  type PaymentMethod,
+  DeliveryError,
+  POOR_ACCURACY_METERS,
+  cancelQrPayment,
+  completeDelivery,
+  getProofLink,
+  markArrived,
+  startTrip
+} from '@/services/deliveryService';
+import { arrivalFenceFor } from '@/services/arrivalGeofence';
+import {
+  enqueueArrival,
+  enqueueCompletion,
+  enqueueStatusChange,
+  isNetworkError,
+  isOnline
+} from '@/services/offlineQueue';
+import { useDestinationDistance } from '@/hooks/use-destination-distance';
+import { useOfflineQueue } from '@/hooks/use-offline-queue';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AWAITING_PAYMENT_STATUSES,
+  DONE_STATUSES,
+  type OrderStatus,
+  canTransition,
+  getOrderStatusColor,
+  normalizeOrderStatus
+} from '@/constants/orderStatus';
+import ToastNotification from '@/components/ToastNotification';
+import ProofStamper, { type ProofStamperHandle } from '@/components/ProofStamper';
+import { type ProofDetails, attachProofExif, hashProof, watermarkLines } from '@/services/proofStamp';
+import { claimStatusNotification, notifyArrival, notifyTripStarted } from '@/services/notificationService';
+
+/**
+ * Link that opens an order in the app, e.g. riderapp://order/<id>
+ */
+export function orderLink(orderId: string): string {
+  return Linking.createURL(`order/${orderId}`);
+}
+
+export default function OrderDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { orders, loading: ordersLoading, refresh, patchOrder, onOrderChange } = useOrders();
+  const order = orders.find(o => o.id === id) ?? null;
+  const [qrValue, setQrValue] = useState<string | null>(null);
+  const [qrExpiresAt, setQrExpiresAt] = useState<Date | null>(null);
+  const [qrTimeRemaining, setQrTimeRemaining] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast, showToast, hideToast } = useToast();
+  const qrTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const stamperRef = useRef<ProofStamperHandle>(null);
+  const orderRef = useRef(order);
+  orderRef.current = order;
+
+  const { pendingOrderIds } = useOfflineQueue();
+
+  const { distance: destinationDistance, atDestination } = useDestinationDistance(
+    order ? arrivalFenceFor(order) : null,
+    normalizeOrderStatus(order?.status) === 'EN_ROUTE'
+  );
+
+  // Offer to mark arrival as soon as the rider reaches the drop-off
+  useEffect(() => {
+    if (atDestination) showToast('📍 You\'re at the drop-off. Tap "I Have Arrived" to confirm.', 'info');
+  }, [atDestination, showToast]);
+
+  // QR Timer - Count down to expiry and auto-regenerate
+  useEffect(() => {
+    if (qrExpiresAt && qrValue) {
+      const now = new Date();
+      const timeUntilExpiry = Math.floor((qrExpiresAt.getTime() - now.getTime()) / 1000);
+      console.log('⏱️ QR Timer STARTED');
+      console.log(`   Expires at: ${qrExpiresAt.toLocaleTimeString()}`);
+      console.log(`   Time remaining: ${Math.floor(timeUntilExpiry / 60)}m ${timeUntilExpiry % 60}s`);
+      console.log(`   Auto-refresh: ENABLED`);
+      
+      // Clear any existing timer
+      if (qrTimerRef.current) {
+        clearInterval(qrTimerRef.current);
+      }
+
+      // Update timer every second
+      qrTimerRef.current = setInterval(() => {
+        const now = new Date().getTime();
+        const expiryTime = qrExpiresAt.getTime();
+        const remaining = Math.max(0, Math.floor((expiryTime - now) / 1000));
+        
+        setQrTimeRemaining(remaining);
+        
+        // Log every 30 seconds
+        if (remaining % 30 === 0 && remaining > 0) {
+          console.log(`⏱️ QR expires in ${Math.floor(remaining / 60)}m ${remaining % 60}s`);
+        }
+        
+        // Warning at 1 minute
+        if (remaining === 60) {
+          console.log('⚠️ QR code expires in 1 minute!');
+          showToast('⚠️ QR expires in 1 minute', 'warning');
+        }
+        
+        // Auto-regenerate when expired
+        if (remaining === 0) {
+          console.log('❌❌❌ QR EXPIRED! TRIGGERING AUTO-REGENERATION ❌❌❌');
+          showToast('🔄 QR expired! Generating new code...', 'warning');
+          
+          // Clear the interval to prevent multiple triggers
+          if (qrTimerRef.current) {
+            clearInterval(qrTimerRef.current);
+            qrTimerRef.current = null;
+          }
+          
+          // Use the latest copy of the order
+          const currentOrder = orderRef.current;
+          if (currentOrder) {
+            console.log(`🔄 Auto-regenerating QR for order ${currentOrder.id}...`);
+            handleGenerateQR(currentOrder, true); // true = auto-regenerate
+          } else {
+            console.error('❌ Cannot auto-regenerate: order is no longer available');
+          }
+        }
+      }, 1000);
+
+      return () => {
+        if (qrTimerRef.current) {
+          clearInterval(qrTimerRef.current);
+          console.log('⏱️ QR Timer STOPPED (cleanup)');
+        }
+      };
+    } else {
+      console.log('⏱️ QR Timer NOT started - missing qrExpiresAt or qrValue');
+    }
+  }, [qrExpiresAt, qrValue]);
+
+  // Cleanup timer on unmount
+  useEffect(() => {
+    return () => {
+      if (qrTimerRef.current) {
+        clearInterval(qrTimerRef.current);
+      }
+    };
+  }, []);
+
+  // 1. Resume an unexpired QR saved on the order
+  const qrRestoredRef = useRef(false);
+  useEffect(() => {
+    if (!order || qrRestoredRef.current) return;
+    qrRestoredRef.current = true;
+    if (order.qr_ph && order.qr_expires_at) {
+      const expiryDate = new Date(order.qr_expires_at);
+      const secondsRemaining = Math.floor((expiryDate.getTime() - Date.now()) / 1000);
+
+      console.log('📋 Loading existing QR from order');
+      console.log('   Expires at:', expiryDate.toLocaleTimeString());
+      console.log('   Seconds remaining:', secondsRemaining);
+
+      if (secondsRemaining > 0) {
+        setQrExpiresAt(expiryDate);
+        setQrTimeRemaining(secondsRemaining);
+        setQrValue(order.qr_ph);
+      } else {
+        console.log('⚠️ QR already expired');
+      }
+    } else {
+      console.log('📋 No active QR found in order');
+    }
+  }, [order]);
+
+  // 2. Payment updates for this order from the realtime subscription
+  const handleOrderChangeRef = useRef<(change: OrderChange) => void>(() => {});
+  useEffect(() => onOrderChange(change => {
+    handleOrderChangeRef.current(change);
+  }), [onOrderChange]);
+
+  const clearQr = () => {
+    setQrValue(null);
+    setQrExpiresAt(null);
+    setQrTimeRemaining(null);
+    if (qrTimerRef.current) {
+      clearInterval(qrTimerRef.current);
+      qrTimerRef.current = null;
+    }
+  };
+
+  const handleOrderChange = ({ type, order: updatedOrder, previous }: OrderChange) => {
+    if (type !== 'UPDATE' || updatedOrder.id !== id || !previous) return;
+    const newStatus = normalizeOrderStatus(updatedOrder.status);
+
+    if (normalizeOrderStatus(previous.status) !== newStatus) {
+      if (newStatus === 'PAID') {
+        // The rider completes it next with proof of delivery
+        showToast(`✅ Payment confirmed for ${updatedOrder.customer_name}!`, 'success');
+        clearQr();
+      } else if (newStatus === 'PAYMENT_FAILED') {
+        // The failed QR can no longer be paid
+        showToast(`❌ Payment failed for ${updatedOrder.customer_name}. Generate a new QR or collect cash.`, 'error');
+        clearQr();
+      }
+    } else if (previous.payrex_payment_intent_id && !updatedOrder.payrex_payment_intent_id) {
+      // QR expired or was cancelled by the gateway
+      showToast(`⏱️ QR for ${updatedOrder.customer_name} is no longer valid`, 'warning');
+      clearQr();
+    }
+  };
+  handleOrderChangeRef.current = handleOrderChange;
+
+  const goBack = () => {
+    clearQr();
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  };
+
+  // Directions to the geocoded destination, or to the address text until it has been geocoded
+  const navigateTo = (order: Order) => {
+    const destination = order.destination_latitude != null && order.destination_longitude != null
+      ? { latitude: order.destination_latitude, longitude: order.destination_longitude }
+      : [order.address, order.city].filter(Boolean).join(', ');
+    Linking.openURL(getDirectionsLink(destination)).catch(error => {
+      console.error('Error opening directions:', error);
+      showToast('Could not open directions', 'error');
+    });
+  };
+
+  const viewProof = async (order: Order) => {
+    const link = await getProofLink(order.proof_url);
+    if (!link) {
+      showToast('Proof photo is not available', 'error');
+      return;
+    }
+    Linking.openURL(link).catch(error => {
+      console.error('Error opening proof photo:', error);
+      showToast('Could not open the proof photo', 'error');
+    });
+  };
+
+  const shareOrder = (orderId: string) => {
+    Share.share({ message: `Order #${orderId.slice(0, 8)}: ${orderLink(orderId)}` });
+  };
+
+  // 3. Update Order Status
+  const updateOrderStatus = async (
+    orderId: string,
+    newStatus: Extract<OrderStatus, 'EN_ROUTE' | 'ARRIVED'>,
+    arrival?: Omit<MarkArrivedInput, 'orderId'>
+  ) => {
+    // Catch illegal moves before the database trigger rejects them
+    const currentOrder = orders.find(o => o.id === orderId);
+    const currentStatus = normalizeOrderStatus(currentOrder?.status);
+    if (currentStatus && !canTransition(currentStatus, newStatus, 'rider')) {
+      showToast(`Cannot change order from ${currentStatus} to ${newStatus}`, 'error');
+      return false;
+    }
+
+    // Without signal (or behind other unsynced actions for this order), record the change for later
+    const queueOffline = async () => {
+      if (!currentStatus) return false;
+      if (newStatus === 'ARRIVED') {
+        await enqueueArrival(arrivalInput);
+      } else {
+        await enqueueStatusChange(orderId, currentStatus, newStatus);
+      }
+      patchOrder(orderId, { status: newStatus });
+      showToast('📴 No signal - status saved and will sync automatically', 'warning');
+      return true;
+    };
+
+    // Arrival goes through mark_arrived, which checks the fix against the geofence
+    const arrivalInput: MarkArrivedInput = {
+      latitude: null,
+      longitude: null,
+      arrivedAt: new Date(),
+      ...arrival,
+      orderId,
+    };
+
+    let queued = false;
+    if (pendingOrderIds.has(orderId) || !(await isOnline())) {
+      queued = await queueOffline();
+    } else {
+      let error: unknown = null;
+      try {
+        if (newStatus === 'ARRIVED') {
+          await markArrived(arrivalInput);
+        } else {
+          await startTrip(orderId);
+        }
+      } catch (statusError) {
+        error = statusError;
+      }
+      
+      if (error && isNetworkError(error)) {
+        queued = await queueOffline();
+      } else if (error) {
+        console.error('Error updating status:', error);
+        showToast(error instanceof DeliveryError ? error.message : 'Failed to update order status', 'error');
+        return false;
+      }
+    }
+    
+    // Show toast and send notification for status updates (only once per status)
+    if (newStatus === 'EN_ROUTE') {
+      if (!queued) showToast('🚗 Trip started! On the way to customer', 'info');
+      if (currentOrder && claimStatusNotification(orderId, newStatus)) {
+        await notifyTripStarted(orderId, currentOrder.customer_name);
+      }
+    } else if (newStatus === 'ARRIVED') {
+      if (!queued) showToast('📍 Marked as arrived at destination', 'success');
+      if (currentOrder && claimStatusNotification(orderId, newStatus)) {
+        await notifyArrival(orderId, currentOrder.customer_name);
+      }
+    }
+    
+    // Update local state
+    if (!queued) {
+      patchOrder(orderId, { status: newStatus });
+      refresh();
+    }
+    return true;
+  };
+
+  // Arrival from outside the drop-off geofence is blocked unless the rider
+  // reports it anyway, which flags the order for review
+  const handleArrive = async (order: Order) => {
+    setLoading(true);
+    const location = await captureCurrentLocation();
+    setLoading(false);
+
+    const arrival = {
+      latitude: location?.latitude ?? null,
+      longitude: location?.longitude ?? null,
+      accuracy: location?.accuracy ?? null,
+      arrivedAt: location?.timestamp ?? new Date(),
+    };
+
+    const fence = arrivalFenceFor(order);
+    if (!fence || (location && isWithinRadius(location, fence, fence.radius))) {
+      await updateOrderStatus(order.id, 'ARRIVED', arrival);
+      return;
+    }
+
+    const where = location
+      ? `You are ${formatDistance(distanceMeters(location, fence))} from the delivery address.`
+      : 'Your GPS location is unavailable.';
+    Alert.alert(
+      'Not at the Drop-off Yet',
+      `${where} Arrivals outside the ${fence.radius} m delivery area are flagged for review.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Report Arrival Anyway',
+          style: 'destructive',
+          onPress: () => updateOrderStatus(order.id, 'ARRIVED', { ...arrival, outsideFenceOk: true })
+        }
+      ]
+    );
+  };
+
+  // 4. Generate QR Code (with expiry tracking)
+  const showQrError = (order: Order, isAutoRegenerate: boolean) => {
+    // The expired QR must not stay on screen
+    if (isAutoRegenerate) clearQr();
+    Alert.alert(
+      'QR Unavailable',
+      'Could not generate a payment QR. Check your connection and try again, or take cash.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Retry', onPress: () => handleGenerateQR(order, isAutoRegenerate) },
+      ]
+    );
+  };
+
+  const handleGenerateQR = async (order: Order, isAutoRegenerate: boolean = false) => {
+    console.log(`🔄 ${isAutoRegenerate ? 'AUTO-REGENERATING' : 'GENERATING'} QR code for order ${order.id}`);
+    setLoading(true);
+    try {
+      console.log('Invoking generate-qr with:', { orderId: order.id, amount: order.cod_amount });
+      
+      // Try to call the Supabase function
+      const { data, error } = await supabase.functions.invoke('generate-qr', {
+        body: { orderId: order.id, amount: order.cod_amount }
+      });
+
+      // The server rejected the request (wrong status, not our order, amount mismatch)
+      if (error instanceof FunctionsHttpError && error.context.status < 500) {
+        const details = await error.context.json().catch(() => null);
+        console.warn('generate-qr rejected request:', details);
+        showToast(details?.error || 'Unable to generate QR for this order', 'error');
+        return;
+      }
+
+      // Never show a QR the customer can't pay; let the rider retry (or take cash) instead
+      if (error || !data?.qr_payload) {
+        console.error('generate-qr failed:', error ?? data);
+        showQrError(order, isAutoRegenerate);
+        return;
+      }
+
+      console.log('✅ QR payload received:', data.qr_payload);
+      setQrValue(data.qr_payload);
+      
+      // Set expiry time from response
+      if (data.expires_at) {
+        const expiryDate = new Date(data.expires_at);
+        const now = new Date();
+        const secondsRemaining = Math.floor((expiryDate.getTime() - now.getTime()) / 1000);
+        
+        setQrExpiresAt(expiryDate);
+        setQrTimeRemaining(secondsRemaining); // Initialize timer immediately
+        console.log(`⏱️ QR will expire at: ${expiryDate.toLocaleTimeString()} (${secondsRemaining}s remaining)`);
+        
+        if (data.reused) {
+          // The server handed back the QR already issued for this order
+          showToast(`📱 Showing current QR (expires ${expiryDate.toLocaleTimeString()})`, 'info');
+        } else if (isAutoRegenerate) {
+          showToast(`🔄 New QR generated (expires in 5 minutes at ${expiryDate.toLocaleTimeString()})`, 'success');
+        }
+      }
+      
+      // QR metadata (qr_ph, expiry, payment intent) is stored on the order by generate-qr
+      console.log('✅ QR code ready');
+      
+      // Mark this status as already notified to prevent duplicate notifications
+      // (payment_method is recorded by complete_delivery)
+      claimStatusNotification(order.id, 'ARRIVED');
+      
+      console.log(`✅ QR generation complete! ${isAutoRegenerate ? '(Auto-regenerated)' : ''}`);
+      
+    } catch (err) {
+      console.error('Error generating QR:', err);
+      showQrError(order, isAutoRegenerate);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The QR could not be cancelled, so taking cash could get the customer charged twice
+  const showQrCancelError = (error: unknown, retry: () => void) => {
+    if (error instanceof DeliveryError && error.code === 'already_paid') {
+      Alert.alert('Already Paid', "The customer has already paid by QR. Don't collect cash.");
+      refresh();
+      return;
+    }
+    Alert.alert(
+      'QR Still Payable',
+      'Could not cancel the payment QR, so the customer could still pay it. Try again before taking cash.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Retry', onPress: retry },
+      ]
+    );
+  };
+
+  // Retire the QR so that only cash is owed
+  const switchToCash = async (order: Order) => {
+    setLoading(true);
+    try {
+      await cancelQrPayment(order.id);
+      clearQr();
+      showToast('QR cancelled - collect cash', 'info');
+    } catch (error) {
+      if (isNetworkError(error)) {
+        // The cash completion cancels it once back online
+        clearQr();
+        showToast('📴 No signal - the QR will be cancelled when the delivery syncs', 'warning');
+      } else {
+        showQrCancelError(error, () => switchToCash(order));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Watermark the photo and embed EXIF; an unstamped photo is still better than no delivery
+  const prepareProof = async (photo: ImagePicker.ImagePickerAsset, details: ProofDetails) => {
+    try {
+      if (!stamperRef.current) throw new Error('Proof stamper is not mounted');
+      const stamped = await stamperRef.current.stamp(photo, watermarkLines(details));
+      return await attachProofExif(stamped, details, photo.exif);
+    } catch (error) {
+      console.error('Error stamping proof photo:', error);
+      return photo.uri;
+    }
+  };
+
+  // 5. Proof of Delivery (Photo) + GPS Capture
+  const handlePOD = async (orderId: string, paymentMethod: PaymentMethod = 'CASH', cashReason?: CashFallbackReason) => {
+    try {
+      // Step 1: Capture GPS coordinates first
+      console.log('Capturing delivery location...');
+      showToast('📸 Capturing GPS location and Proof of Delivery', 'info');
+      const location = await captureCurrentLocation();
+      
+      if (!location) {
+        // complete_delivery requires a GPS fix, so don't make the rider take a photo for nothing
+        showToast('📍 GPS location is required to complete a delivery. Enable location and try again.', 'error');
+        return;
+      }
+      console.log('Location captured:', formatCoordinates(location.latitude, location.longitude));
+
+      // complete_delivery still accepts these, but flags the order for ops to review
+      if (location.mocked) {
+        showToast('⚠️ Mock location detected - this delivery will be flagged for review', 'warning');
+      } else if (location.accuracy === undefined || location.accuracy > POOR_ACCURACY_METERS) {
+        showToast('⚠️ Weak GPS signal - this delivery will be flagged for review', 'warning');
+      }
+
+      // Step 2: Before taking cash, make sure the customer can no longer pay the QR
+      let qrCancelled = paymentMethod !== 'CASH';
+      if (!qrCancelled && !pendingOrderIds.has(orderId) && (await isOnline())) {
+        try {
+          await cancelQrPayment(orderId);
+          qrCancelled = true;
+        } catch (cancelError) {
+          // Without signal the queued completion cancels it once back online
+          if (!isNetworkError(cancelError)) {
+            showQrCancelError(cancelError, () => handlePOD(orderId, paymentMethod, cashReason));
+            return;
+          }
+        }
+      }
+
+      // Step 3: Take delivery proof photo
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 0.5,
+        base64: false,
+        exif: true,
+      });
+
+      if (result.canceled) {
+        // User canceled - show message that they need to upload proof
+        console.log('Photo capture canceled by user');
+        Alert.alert(
+          "Proof Required",
+          "You must upload a proof of delivery photo to complete this transaction.",
+          [
+            { 
+              text: "Cancel", 
+              style: "cancel",
+              onPress: () => {
+                // Return to payment method selection by clearing QR
+                setQrValue(null);
+                showToast('Returned to payment selection', 'info');
+              }
+            },
+            { text: "Try Again", onPress: () => handlePOD(orderId, paymentMethod, cashReason) }
+          ]
+        );
+        return;
+      }
+
+      const takenAt = new Date();
+      const proofUri = await prepareProof(result.assets[0], { orderId, takenAt, location });
+      const fileName = `${orderId}_${takenAt.getTime()}.jpg`;
+
+      const leaveOrder = () => {
+        setLoading(false);
+        goBack(); // Go back to list
+      };
+
+      // Without signal, keep the photo and GPS fix on the device and complete the order once back online
+      const queueOffline = async () => {
+        await enqueueCompletion({
+          orderId,
+          paymentMethod,
+          cashReason,
+          photoUri: proofUri,
+          fileName,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          accuracy: location.accuracy,
+          mocked: location.mocked,
+          deliveredAt: location.timestamp,
+        });
+        patchOrder(orderId, { status: 'COMPLETED' });
+        showToast('📴 No signal - delivery saved and will sync automatically', 'warning');
+        leaveOrder();
+      };
+
+      if (!qrCancelled || pendingOrderIds.has(orderId) || !(await isOnline())) {
+        await queueOffline();
+        return;
+      }
+
+      console.log('Uploading file:', fileName, 'from URI:', proofUri);
+      
+      // Show loading state
+      setLoading(true);
+      showToast('⏳ Uploading proof of delivery...', 'info');
+
+      // For React Native, we need to use FormData or ArrayBuffer
+      // Let's try using the file URI directly with fetch and ArrayBuffer
+      const response = await fetch(proofUri);
+      const arrayBuffer = await response.arrayBuffer();
+      const proofSha256 = await hashProof(arrayBuffer);
+      
+      console.log('File size:', arrayBuffer.byteLength, 'bytes');
+
+      // Upload to Supabase Storage using ArrayBuffer
+      const { data, error } = await supabase.storage
+        .from('proofs')
+        .upload(fileName, arrayBuffer, {
+          contentType: 'image/jpeg',
+          upsert: false,
+        });
+
+      if (error && isNetworkError(error)) {
+        await queueOffline();
+        return;
+      }
+      if (error) {
+        console.error('Upload error:', error);
+        showToast(error.message || 'Failed to upload image', 'error');
+        setLoading(false);
+        return;
+      }
+
+      console.log('Upload successful:', data);
+      showToast('✓ Photo uploaded successfully', 'success');
+
+      // Step 4: Complete the order (proof, payment method, GPS and cash reason) in one transaction
+      showToast('💾 Completing delivery...', 'info');
+      
+      try {
+        await completeDelivery({
+          orderId,
+          paymentMethod,
+          proofPath: fileName,
+          proofSha256,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          accuracy: location.accuracy,
+          mocked: location.mocked,
+          deliveredAt: location.timestamp,
+          cashReason,
+        });
+      } catch (completeError) {
+        if (!isNetworkError(completeError)) throw completeError;
+        // The photo is already uploaded; the queued replay tolerates that
+        await queueOffline();
+        return;
+      }
+      
+      showToast('✅ Delivery completed!', 'success');
+      
+      leaveOrder();
+      refresh();
+    } catch (err: any) {
+      console.error('POD error:', err);
+      showToast(err.message || 'Failed to complete delivery', 'error');
+      setLoading(false);
+    }
+  };
+
+  // --- RENDERING ---
+
+  if (!order) {
+    return (
+      <View style={styles.emptyContainer}>
+        {ordersLoading ? (
+          <ActivityIndicator size="large" color="#007AFF" />
+        ) : (
+          <>
+            <Text style={styles.emptyText}>Order not found</Text>
+            <Text style={styles.emptySubtext}>It may have been reassigned to another rider.</Text>
+            <TouchableOpacity style={[styles.backButton, { alignSelf: 'center', marginTop: 20 }]} onPress={goBack}>
+              <Text style={styles.backButtonText}>← Back to Orders</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  }
+
+  // Payment can be collected once arrived, and retried after a failed QR payment
+  const selectedStatus = normalizeOrderStatus(order.status);
+  const awaitingPayment = selectedStatus !== null && AWAITING_PAYMENT_STATUSES.includes(selectedStatus);
+  const addressDetails = [order.landmark, order.barangay, order.city].filter(Boolean).join(' · ');
+
+  return (
+    <View style={{ flex: 1 }}>
+      {/* Toast Notification */}
+      <ToastNotification
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        onHide={hideToast}
+      />
+      <ProofStamper ref={stamperRef} />
+      
+      {/* Loading Overlay */}
+      {loading && (
+        <View style={styles.loadingOverlay}>
+          <View style={styles.loadingBox}>
+            <ActivityIndicator size="large" color="#007AFF" />
+            <Text style={styles.loadingText}>Processing...</Text>
+          </View>
+        </View>
+      )}
+      
+      <ScrollView 
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+      >
+        <View style={styles.navRow}>
+          <TouchableOpacity style={styles.backButton} onPress={goBack}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.shareButton} onPress={() => shareOrder(order.id)}>
+            <Text style={styles.shareButtonText}>🔗 Share</Text>
+          </TouchableOpacity>
+        </View>
+      
+      <View style={styles.detailBox}>
+        {/* Header with Order ID and Status Badge */}
+        <View style={styles.detailHeader}>
+          <Text style={styles.orderIdText}>Order #{order.id.slice(0, 8)}</Text>
+          <View style={[styles.statusBadgeDetail, { backgroundColor: getOrderStatusColor(order.status) }]}>
+            <Text style={styles.statusTextDetail}>{order.status}</Text>
+          </View>
+        </View>
+        {order.arrival_flagged && (
+          <Text style={styles.flaggedText}>⚠️ Arrival was reported outside the delivery area</Text>
+        )}
+        {order.delivery_flagged && (
+          <Text style={styles.flaggedText}>
+            ⚠️ Delivery location under review: {(order.delivery_flags ?? []).map(flag => DELIVERY_FLAG_LABELS[flag]).join(', ')}
+            {order.delivery_distance_m != null ? ` (${formatDistance(order.delivery_distance_m)} from the address)` : ''}
+          </Text>
+        )}
+        
+        <View style={styles.divider} />
+        
+        {/* Customer Info and Address in Row */}
+        <View style={styles.infoRow}>
+          <View style={styles.infoColumn}>
+            <Text style={styles.detailLabel}>👤 Customer</Text>
+            <Text style={styles.detailValue}>{order.customer_name}</Text>
+          </View>
+          <View style={[styles.infoColumn, { flex: 1.5 }]}>
+            <Text style={styles.detailLabel}>📍 Delivery Address</Text>
+            <Text style={styles.detailAddress}>{order.address}</Text>
+            {addressDetails !== '' && (
+              <Text style={styles.addressDetails}>{addressDetails}</Text>
+            )}
+            {(selectedStatus === null || !DONE_STATUSES.includes(selectedStatus)) && (
+              <TouchableOpacity style={styles.navigateButton} onPress={() => navigateTo(order)}>
+                <Text style={styles.navigateButtonText}>🧭 Navigate</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+        
+        <View style={styles.divider} />
+        
+        {/* Amount - Highlighted */}
+        <View style={styles.amountSection}>
+          <Text style={styles.amountLabel}>Amount to Collect</Text>
+          <Text style={styles.amountLarge}>₱{order.cod_amount.toFixed(2)}</Text>
+        </View>
+        {order.proof_url && selectedStatus !== null && DONE_STATUSES.includes(selectedStatus) && (
+          <TouchableOpacity style={[styles.navigateButton, { alignSelf: 'center' }]} onPress={() => viewProof(order)}>
+            <Text style={styles.navigateButtonText}>🖼️ View Proof Photo</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* STEP 1: Start Delivery (PENDING → EN_ROUTE) */}
+      {selectedStatus === 'PENDING' && (
+        <View style={styles.section}>
+          <TouchableOpacity 
+            style={styles.primaryButton}
+            onPress={async () => {
+              await updateOrderStatus(order.id, 'EN_ROUTE');
+            }}
+          >
+            <Text style={styles.primaryButtonText}>🚚 Start Delivery</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* STEP 2: Arrive at Destination (EN_ROUTE → ARRIVED) */}
+      {selectedStatus === 'EN_ROUTE' && (
+        <View style={styles.section}>
+          <TouchableOpacity 
+            style={styles.arriveButton}
+            onPress={() => handleArrive(order)}
+            disabled={loading}
+          >
+            <Text style={styles.arriveButtonText}>📍 I Have Arrived</Text>
+            {destinationDistance !== null && (
+              <Text style={styles.arriveDistanceText}>
+                {atDestination ? 'At the drop-off' : `${formatDistance(destinationDistance)} to the drop-off`}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* STEP 3: Payment Options (Only show when ARRIVED or after a failed payment) */}
+      {awaitingPayment && (
+        <View style={styles.section}>
+          {selectedStatus === 'PAYMENT_FAILED' && !qrValue && (
+            <View style={styles.failedPaymentBox}>
+              <Text style={styles.failedPaymentText}>
+                ❌ QR payment failed. Generate a new QR code or collect cash.
+              </Text>
+            </View>
+          )}
+
+          {/* Generate QR Button */}
+          {!qrValue && (
+            <TouchableOpacity 
+              style={[styles.primaryButton, loading && styles.buttonDisabled]}
+              onPress={() => handleGenerateQR(order)} 
+              disabled={loading}
+            >
+              <Text style={styles.primaryButtonText}>
+                {loading ? "Generating QR Code..." : "📱 Generate QR Code for Payment"}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {/* Show QR Code while awaiting payment */}
+      {qrValue && awaitingPayment && (
+        <>
+          <Text style={styles.qrTitle}>Scan QR Code</Text>
+          
+          {/* QR Expiry Timer */}
+          {qrTimeRemaining !== null && qrTimeRemaining >= 0 && (
+            <View style={styles.timerContainer}>
+              {qrTimeRemaining > 0 ? (
+                <Text style={styles.timerText}>
+                  <Text style={styles.timerLabel}>QR expires in </Text>
+                  <Text style={[
+                    styles.timerValue,
+                    qrTimeRemaining <= 60 && styles.timerTextUrgent
+                  ]}>
+                    {Math.floor(qrTimeRemaining / 60)}m {qrTimeRemaining % 60}s
+                  </Text>
+                </Text>
+              ) : (
+                <Text style={styles.timerText}>
+                  <Text style={styles.timerLabel}>⏱️ EXPIRED - </Text>
+                  <Text style={styles.timerTextUrgent}>Regenerating...</Text>
+                </Text>
+              )}
+            </View>
+          )}
+          
+          <View style={styles.qrContainer}>
+            <QRCode value={qrValue} size={250} />
+          </View>
+
+          {/* Manual Refresh Button */}
+          <TouchableOpacity
+            style={[styles.refreshButton, loading && styles.buttonDisabled]}
+            onPress={() => handleGenerateQR(order, false)}
+            disabled={loading}
+          >
+            <Text style={styles.refreshButtonText}>
+              {loading ? '🔄 Generating...' : '🔄 Refresh QR Code'}
+            </Text>
+          </TouchableOpacity>
+          
+          {/* Payment Failed - Switch to Cash */}
+          <TouchableOpacity
+            style={styles.failButton}
+            onPress={() => {
+              Alert.alert(
+                "Payment Failed?",
+                "Switch to cash payment instead?",
+                [
+                  { text: "Cancel", style: "cancel" },
+                  { 
+                    text: "Yes, Use Cash", 
+                    style: "destructive",
+                    onPress: () => switchToCash(order)
+                  }
+                ]
+              );
+            }}
+          >
+            <Text style={styles.failButtonText}>Payment Failed? Switch to Cash</Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      {/* Direct Cash Payment Option (Only while awaiting payment) */}
+      {awaitingPayment && !qrValue && (
+        <View style={styles.section}>
+          <TouchableOpacity
+            style={styles.cashButton}
+            onPress={() => {
+              Alert.alert(
+                "Cash Payment",
+                "Why did the customer choose cash payment?",
+                [
+                  { text: "Cancel", style: "cancel" },
+                  { 
+                    text: "QR Payment Unavailable", 
+                    onPress: () => handlePOD(order.id, 'CASH', 'QR_PAYMENT_UNAVAILABLE')
+                  },
+                  { 
+                    text: "Customer Request", 
+                    onPress: () => handlePOD(order.id, 'CASH', 'CUSTOMER_REQUEST')
+                  }
+                ]
+              );
+            }}
+          >
+            <Text style={styles.cashButtonText}>💵 Customer Paid Cash</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* STEP 4: QR payment confirmed (PAID → COMPLETED with proof) */}
+      {selectedStatus === 'PAID' && (
+        <View style={styles.section}>
+          <View style={styles.completedBox}>
+            <Text style={styles.completedText}>✅ Payment Received</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.primaryButton, { marginTop: 15 }]}
+            onPress={() => handlePOD(order.id, 'QRPH')}
+          >
+            <Text style={styles.primaryButtonText}>📸 Take Proof of Delivery</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {selectedStatus === 'COMPLETED' && (
+        <View style={styles.completedBox}>
+          <Text style={styles.completedText}>✅ Delivery Completed</Text>
+        </View>
+      )}
+
+      {selectedStatus === 'REFUNDED' && (
+        <View style={styles.failedPaymentBox}>
+          <Text style={styles.failedPaymentText}>↩️ Payment Refunded</Text>
+        </View>
+      )}
+
+      </ScrollView>
+    </View>
+  );
+}
+
+// Why complete_delivery flagged the proof-of-delivery location
+const DELIVERY_FLAG_LABELS: Record<NonNullable<Order['delivery_flags']>[number], string> = {
+  poor_accuracy: 'weak GPS signal',
+  mock_location: 'mock location',
+  outside_geofence: 'outside the delivery area',
+};
+
+const styles = StyleSheet.create({
+  scrollView: { flex: 1, backgroundColor: '#f5f5f5' },
+  scrollContent: { padding: 20, paddingTop: 50, paddingBottom: 40 },
+  detailBox: { backgroundColor: 'white', padding: 24, borderRadius: 16, marginVertical: 20, shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.1, shadowRadius: 8, elevation: 3 },
+  detailHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
+  orderIdText: { fontSize: 16, fontWeight: 'bold', color: '#333' },
+  infoRow: { flexDirection: 'row', gap: 16, marginBottom: 16 },
+  infoColumn: { flex: 1 },
+  detailLabel: { fontSize: 11, color: '#888', fontWeight: '600', textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 6 },
+  detailValue: { fontSize: 18, fontWeight: '600', color: '#333' },
+  detailAddress: { fontSize: 15, color: '#555', lineHeight: 22 },
+  addressDetails: { fontSize: 12, color: '#6b7280', marginTop: 4 },
+  navigateButton: { alignSelf: 'flex-start', marginTop: 8, paddingVertical: 6, paddingHorizontal: 12, borderRadius: 6, backgroundColor: '#e7f1ff' },
+  navigateButtonText: { color: '#007AFF', fontSize: 13, fontWeight: '600' },
+  amountSection: { alignItems: 'center', paddingVertical: 12, backgroundColor: '#f8f9fa', borderRadius: 12, marginTop: 8 },
+  amountLabel: { fontSize: 12, color: '#666', fontWeight: '600', textTransform: 'uppercase', marginBottom: 4 },
+  amountLarge: { fontSize: 32, color: '#28a745', fontWeight: 'bold', letterSpacing: 1 },
+  divider: { height: 1, backgroundColor: '#e0e0e0', width: '100%', marginVertical: 16 },
+  backButton: { backgroundColor: '#007AFF', paddingHorizontal: 16, paddingVertical: 10, borderRadius: 8, alignSelf: 'flex-start' },
+  backButtonText: { color: 'white', fontSize: 16, fontWeight: '600' },
+  navRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 15 },
+  shareButton: { backgroundColor: 'white', paddingHorizontal: 16, paddingVertical: 10, borderRadius: 8, borderWidth: 1, borderColor: '#007AFF' },
+  shareButtonText: { color: '#007AFF', fontSize: 16, fontWeight: '600' },
+  emptyContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 20, backgroundColor: '#f5f5f5' },
+  emptyText: { fontSize: 18, fontWeight: 'bold', color: '#333', textAlign: 'center' },
+  emptySubtext: { fontSize: 14, color: '#666', marginTop: 8, textAlign: 'center' },
+  primaryButton: { backgroundColor: '#007AFF', paddingVertical: 16, paddingHorizontal: 24, borderRadius: 10, width: '100%', alignItems: 'center' },
+  primaryButtonText: { color: 'white', fontSize: 16, fontWeight: 'bold' },
+  buttonDisabled: { opacity: 0.6 },
+  cashButton: { backgroundColor: '#28a745', paddingVertical: 16, paddingHorizontal: 24, borderRadius: 10, width: '100%', alignItems: 'center', marginTop: 10 },
+  cashButtonText: { color: 'white', fontSize: 16, fontWeight: 'bold' },
+  failButton: { marginTop: 15, alignItems: 'center' },
+  failButtonText: { color: '#dc3545', fontSize: 14, fontWeight: '600', textDecorationLine: 'underline' },
+  section: { marginVertical: 10, width: '100%' },
+  qrTitle: { fontSize: 20, fontWeight: 'bold', color: '#333', textAlign: 'center', marginTop: 8, marginBottom: 10 },
+  qrContainer: { alignItems: 'center', padding: 20, backgroundColor: 'white', borderRadius: 10 },
+  failedPaymentBox: { marginTop: 20, padding: 15, backgroundColor: '#f8d7da', borderRadius: 8, width: '100%', alignItems: 'center' },
+  failedPaymentText: { fontSize: 14, color: '#721c24', fontWeight: '600', marginBottom: 10 },
+  completedBox: { backgroundColor: '#d4edda', padding: 20, borderRadius: 10, marginTop: 20, alignItems: 'center' },
+  completedText: { fontSize: 20, color: '#155724', fontWeight: 'bold' },
+  arriveButton: { backgroundColor: '#fd7e14', paddingVertical: 16, paddingHorizontal: 24, borderRadius: 10, width: '100%', alignItems: 'center', marginTop: 10 },
+  arriveButtonText: { color: 'white', fontSize: 16, fontWeight: 'bold' },
+  arriveDistanceText: { color: 'white', fontSize: 12, marginTop: 4, opacity: 0.9 },
+  flaggedText: { fontSize: 12, color: '#721c24', fontWeight: '600', marginTop: 8 },
+  statusBadgeDetail: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 20, shadowColor: '#000', shadowOffset: { width: 0, height: 1 }, shadowOpacity: 0.2, shadowRadius: 2, elevation: 2 },
+  statusTextDetail: { fontSize: 11, color: 'white', textTransform: 'uppercase', fontWeight: 'bold', letterSpacing: 0.5 },
+  loadingOverlay: { 
+    position: 'absolute', 
+    top: 0, 
+    left: 0, 
+    right: 0, 
+    bottom: 0, 
+    backgroundColor: 'rgba(0, 0, 0, 0.5)', 
+    justifyContent: 'center', 
+    alignItems: 'center', 
+    zIndex: 9998 
+  },
+  loadingBox: { 
+    backgroundColor: 'white', 
+    padding: 30, 
+    borderRadius: 16, 
+    alignItems: 'center', 
+    shadowColor: '#000', 
+    shadowOffset: { width: 0, height: 4 }, 
+    shadowOpacity: 0.3, 
+    shadowRadius: 8, 
+    elevation: 10 
+  },
+  loadingText: { 
+    marginTop: 15, 
+    fontSize: 16, 
+    fontWeight: '600', 
+    color: '#333' 
+  },
+  timerContainer: { 
+    marginBottom: 15, 
+    alignItems: 'center'
+  },
+  timerText: { 
+    fontSize: 16,
+    textAlign: 'center'
+  },
+  timerLabel: {
+    color: '#000',
+    fontWeight: 'normal'
+  },
+  timerValue: {
+    color: '#FF0000',
+    fontWeight: 'normal'
+  },
+  timerTextUrgent: {
+    color: '#FF0000',
+    fontWeight: 'normal'
+  },
+  refreshButton: {
+    backgroundColor: 'transparent',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#6c757d',
+    width: '100%',
+    alignItems: 'center',
+    marginTop: 15,
+    marginBottom: 10
+  },
+  refreshButtonText: {
+    color: '#6c757d',
+    fontSize: 14,
+    fontWeight: '600'
+  }
+});
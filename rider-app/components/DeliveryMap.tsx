@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import MapView, { Marker, type Region } from 'react-native-maps';
+import Supercluster from 'supercluster';
+import type { DeliveryMapProps, MapPin } from './DeliveryMap.types';
+
+export type { DeliveryMapProps, MapPin } from './DeliveryMap.types';
+
+// Metro Manila, until there are pins to frame
+const DEFAULT_REGION: Region = {
+  latitude: 14.5995,
+  longitude: 120.9842,
+  latitudeDelta: 0.3,
+  longitudeDelta: 0.3,
+};
+
+// Pins closer than this many pixels merge into a cluster
+const CLUSTER_RADIUS = 50;
+// Past this zoom every pin is drawn on its own
+const MAX_CLUSTER_ZOOM = 16;
+
+const ACTIVE_CLUSTER_COLOR = '#fd7e14';
+const DONE_CLUSTER_COLOR = '#28a745';
+
+interface PinProperties {
+  pinId: string;
+  active: boolean;
+}
+
+interface ClusterProperties {
+  // Pins in the cluster still to be delivered
+  activeCount: number;
+}
+
+function regionFor(pins: MapPin[]): Region {
+  if (pins.length === 0) return DEFAULT_REGION;
+
+  const latitudes = pins.map(pin => pin.latitude);
+  const longitudes = pins.map(pin => pin.longitude);
+  const [minLat, maxLat] = [Math.min(...latitudes), Math.max(...latitudes)];
+  const [minLng, maxLng] = [Math.min(...longitudes), Math.max(...longitudes)];
+
+  // Leave a margin around the outermost pins, and don't zoom in past street level
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.4, 0.02),
+    longitudeDelta: Math.max((maxLng - minLng) * 1.4, 0.02),
+  };
+}
+
+const zoomFor = (region: Region) => Math.round(Math.log2(360 / region.longitudeDelta));
+
+/**
+ * Map of delivery pins, clustered when they crowd together. Tapping a cluster
+ * zooms into it; tapping a pin's callout calls onPinPress.
+ */
+export default function DeliveryMap({ pins, onPinPress }: DeliveryMapProps) {
+  const mapRef = useRef<MapView>(null);
+  const [region, setRegion] = useState<Region>(() => regionFor(pins));
+  const framedRef = useRef(pins.length > 0);
+
+  // Frame the pins once they first arrive (the map mounts before orders load)
+  useEffect(() => {
+    if (framedRef.current || pins.length === 0) return;
+    framedRef.current = true;
+    mapRef.current?.animateToRegion(regionFor(pins));
+  }, [pins]);
+
+  const index = useMemo(() => {
+    const supercluster = new Supercluster<PinProperties, ClusterProperties>({
+      radius: CLUSTER_RADIUS,
+      maxZoom: MAX_CLUSTER_ZOOM,
+      map: properties => ({ activeCount: properties.active ? 1 : 0 }),
+      reduce: (accumulated, properties) => {
+        accumulated.activeCount += properties.activeCount;
+      },
+    });
+    supercluster.load(pins.map(pin => ({
+      type: 'Feature' as const,
+      properties: { pinId: pin.id, active: pin.active },
+      geometry: { type: 'Point' as const, coordinates: [pin.longitude, pin.latitude] },
+    })));
+    return supercluster;
+  }, [pins]);
+
+  const pinsById = useMemo(() => new Map(pins.map(pin => [pin.id, pin])), [pins]);
+
+  const features = useMemo(() => index.getClusters([
+    region.longitude - region.longitudeDelta / 2,
+    region.latitude - region.latitudeDelta / 2,
+    region.longitude + region.longitudeDelta / 2,
+    region.latitude + region.latitudeDelta / 2,
+  ], zoomFor(region)), [index, region]);
+
+  const zoomIntoCluster = (clusterId: number, latitude: number, longitude: number) => {
+    const zoom = Math.min(index.getClusterExpansionZoom(clusterId), MAX_CLUSTER_ZOOM + 1);
+    const delta = 360 / 2 ** zoom;
+    mapRef.current?.animateToRegion({ latitude, longitude, latitudeDelta: delta, longitudeDelta: delta });
+  };
+
+  return (
+    <MapView
+      ref={mapRef}
+      style={StyleSheet.absoluteFill}
+      initialRegion={region}
+      onRegionChangeComplete={setRegion}
+      showsUserLocation
+      showsMyLocationButton
+    >
+      {features.map(feature => {
+        const [longitude, latitude] = feature.geometry.coordinates;
+
+        if ('cluster_id' in feature.properties) {
+          const { cluster_id, point_count_abbreviated, activeCount } = feature.properties;
+          return (
+            <Marker
+              key={`cluster-${cluster_id}`}
+              coordinate={{ latitude, longitude }}
+              onPress={() => zoomIntoCluster(cluster_id, latitude, longitude)}
+            >
+              <View style={[
+                styles.cluster,
+                { backgroundColor: activeCount > 0 ? ACTIVE_CLUSTER_COLOR : DONE_CLUSTER_COLOR },
+              ]}>
+                <Text style={styles.clusterText}>{point_count_abbreviated}</Text>
+              </View>
+            </Marker>
+          );
+        }
+
+        const pin = pinsById.get(feature.properties.pinId);
+        if (!pin) return null;
+        return (
+          <Marker
+            key={pin.id}
+            coordinate={{ latitude, longitude }}
+            pinColor={pin.color}
+            title={pin.title}
+            description={pin.description}
+            onCalloutPress={() => onPinPress(pin.id)}
+          />
+        );
+      })}
+    </MapView>
+  );
+}
+
+const styles = StyleSheet.create({
+  cluster: {
+    minWidth: 36,
+    height: 36,
+    paddingHorizontal: 8,
+    borderRadius: 18,
+    borderWidth: 3,
+    borderColor: '#fff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  clusterText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
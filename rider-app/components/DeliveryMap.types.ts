@@ -0,0 +1,16 @@
+export interface MapPin {
+  id: string;
+  latitude: number;
+  longitude: number;
+  color: string;
+  title: string;
+  description?: string;
+  // Still to be delivered (as opposed to a finished drop-off)
+  active: boolean;
+}
+
+export interface DeliveryMapProps {
+  pins: MapPin[];
+  // Called when the callout of a pin is tapped
+  onPinPress: (pinId: string) => void;
+}
@@ -0,0 +1,59 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { DeliveryMapProps } from './DeliveryMap.types';
+
+export type { DeliveryMapProps, MapPin } from './DeliveryMap.types';
+
+/**
+ * react-native-maps has no web support, so the web build lists the pins instead
+ */
+export default function DeliveryMap({ pins, onPinPress }: DeliveryMapProps) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.note}>The map is available in the iOS and Android app.</Text>
+      {pins.map(pin => (
+        <TouchableOpacity key={pin.id} style={styles.row} onPress={() => onPinPress(pin.id)}>
+          <View style={[styles.dot, { backgroundColor: pin.color }]} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.title}>{pin.title}</Text>
+            {pin.description && <Text style={styles.description}>{pin.description}</Text>}
+          </View>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  note: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  description: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+});
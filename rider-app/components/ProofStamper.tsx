@@ -0,0 +1,134 @@
+import React, { type Ref, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Image, PixelRatio, StyleSheet, Text, View } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
+
+export interface ProofPhoto {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export interface ProofStamperHandle {
+  // Draws the lines onto the photo and resolves with the URI of the stamped JPEG
+  stamp: (photo: ProofPhoto, lines: string[]) => Promise<string>;
+}
+
+interface StampJob {
+  uri: string;
+  width: number;
+  height: number;
+  lines: string[];
+  resolve: (uri: string) => void;
+  reject: (error: unknown) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+type StampResult = { uri: string } | { error: unknown };
+
+// Long edge of the stamped photo in pixels; keeps proof uploads small on mobile data
+const MAX_EDGE = 1600;
+
+// Gives up if the photo never loads or the capture never returns
+const STAMP_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Renders the photo with its watermark off screen and captures the result.
+ * Mount once on the screen that takes proof photos and call `stamp` via a ref.
+ * One photo is stamped at a time: a new `stamp` call rejects the one in progress.
+ */
+export default function ProofStamper({ ref }: { ref?: Ref<ProofStamperHandle> }) {
+  const viewRef = useRef<View>(null);
+  const [job, setJob] = useState<StampJob | null>(null);
+  // The job in progress; set synchronously so a second call sees the first
+  const jobRef = useRef<StampJob | null>(null);
+
+  // Settles a job once; later results for a job that timed out or was replaced are ignored
+  const finish = useCallback((target: StampJob, result: StampResult) => {
+    if (jobRef.current !== target) return;
+    clearTimeout(target.timeout);
+    jobRef.current = null;
+    setJob(null);
+    if ('uri' in result) target.resolve(result.uri);
+    else target.reject(result.error);
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    stamp: (photo, lines) => new Promise<string>((resolve, reject) => {
+      if (jobRef.current) {
+        finish(jobRef.current, { error: new Error('Stamping was replaced by a newer photo') });
+      }
+
+      const scale = Math.min(1, MAX_EDGE / Math.max(photo.width, photo.height));
+      const next: StampJob = {
+        uri: photo.uri,
+        width: Math.round(photo.width * scale),
+        height: Math.round(photo.height * scale),
+        lines,
+        resolve,
+        reject,
+        timeout: setTimeout(
+          () => finish(next, { error: new Error(`Stamping timed out after ${STAMP_TIMEOUT_MS / 1000}s`) }),
+          STAMP_TIMEOUT_MS
+        ),
+      };
+      jobRef.current = next;
+      setJob(next);
+    }),
+  }), [finish]);
+
+  // Don't leave the caller waiting if the screen goes away mid-stamp
+  useEffect(() => () => {
+    if (jobRef.current) finish(jobRef.current, { error: new Error('Proof stamper was unmounted') });
+  }, [finish]);
+
+  if (!job) return null;
+
+  const capture = () => {
+    captureRef(viewRef, { format: 'jpg', quality: 0.8, result: 'tmpfile', width: job.width, height: job.height })
+      .then(uri => finish(job, { uri }))
+      .catch(error => finish(job, { error }));
+  };
+
+  // Laid out in points, captured at the photo's pixel size
+  const width = job.width / PixelRatio.get();
+  const height = job.height / PixelRatio.get();
+  const fontSize = Math.max(10, width * 0.035);
+
+  return (
+    <View style={styles.offscreen} pointerEvents="none">
+      <View ref={viewRef} collapsable={false} style={{ width, height }}>
+        <Image
+          source={{ uri: job.uri }}
+          style={StyleSheet.absoluteFill}
+          onLoad={capture}
+          onError={event => finish(job, { error: new Error(event.nativeEvent.error) })}
+        />
+        <View style={[styles.watermark, { padding: fontSize * 0.6 }]}>
+          {job.lines.map(line => (
+            <Text key={line} style={[styles.watermarkText, { fontSize }]}>{line}</Text>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  // Rendered outside the window so the rider never sees it
+  offscreen: {
+    position: 'absolute',
+    top: 0,
+    left: -10000,
+  },
+  watermark: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.55)',
+  },
+  watermarkText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,22 @@
+/**
+ * Order statuses and allowed transitions.
+ * Shared with the edge functions; the definition lives in supabase/functions/_shared/orderStatus.ts.
+ */
+
+import { normalizeOrderStatus } from '../../supabase/functions/_shared/orderStatus';
+
+export * from '../../supabase/functions/_shared/orderStatus';
+
+// Badge colour for an order status
+export function getOrderStatusColor(status: string): string {
+  switch (normalizeOrderStatus(status)) {
+    case 'COMPLETED': return '#28a745';      // Green
+    case 'PAID': return '#17a2b8';           // Teal
+    case 'PENDING': return '#ffc107';        // Yellow - Awaiting rider to start
+    case 'EN_ROUTE': return '#007bff';       // Blue - On the way
+    case 'ARRIVED': return '#fd7e14';        // Orange - Ready for payment
+    case 'PAYMENT_FAILED': return '#dc3545'; // Red - QR payment failed
+    case 'REFUNDED': return '#6f42c1';       // Purple - Payment returned
+    default: return '#6c757d';               // Gray (default)
+  }
+}
@@ -1,6 +1,11 @@
 import React, { createContext, useState, useEffect, useContext } from 'react';
 import { supabase } from '../supabaseClient';
 import { Session, User } from '@supabase/supabase-js';
+import { clearOrderCaches } from '../services/orderCache';
+import { flushQueue, setQueueOwner } from '../services/offlineQueue';
+import { clearRoutePins } from '../services/routePins';
+import { unregisterPushToken } from '../services/notificationService';
+import { stopTripTracking } from '../services/tripTracking';
 
 interface AuthContextType {
   user: User | null;
@@ -32,6 +37,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     console.log('AuthContext: Checking for existing session...');
     supabase.auth.getSession().then(({ data: { session } }) => {
       console.log('AuthContext: Session check complete. User:', session?.user?.email || 'None');
+      setQueueOwner(session?.user?.id ?? null);
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
@@ -40,6 +46,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     // Listen for auth changes
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       console.log('AuthContext: Auth state changed. Event:', event, 'User:', session?.user?.email || 'None');
+      // The rider's own offline queue, replayed once the home screen is online
+      setQueueOwner(session?.user?.id ?? null);
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
@@ -86,7 +94,17 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   };
 
   const signOut = async () => {
+    // Stop this device getting the rider's pushes; needs the session, so do it first
+    await unregisterPushToken();
+    // Upload the rest of any trip while the rider can still write it
+    await stopTripTracking();
+    // Sync anything recorded offline too; what is still queued stays on the
+    // device under this rider and syncs when they sign in again
+    await flushQueue().catch(error => console.error('Error syncing offline queue on sign out:', error));
     await supabase.auth.signOut();
+    // Don't leave one rider's orders or pins on a shared device
+    await clearOrderCaches();
+    await clearRoutePins();
   };
 
   return (
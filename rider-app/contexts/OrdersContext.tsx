@@ -0,0 +1,293 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { supabase } from '../supabaseClient';
+import { useAuth } from './AuthContext';
+import { DONE_STATUSES, normalizeOrderStatus } from '@/constants/orderStatus';
+import {
+  DELTA_SYNC_INTERVAL_MS,
+  advanceCursor,
+  deltaSyncFrom,
+  loadOrderCache,
+  saveOrderCache,
+  upsertOrders,
+} from '@/services/orderCache';
+import { getQueue, pendingStatusFor } from '@/services/offlineQueue';
+
+export interface Order {
+  id: string;
+  rider_id?: string | null;
+  customer_name: string;
+  address: string;
+  cod_amount: number;
+  status: string;
+  created_at: string;
+  updated_at?: string | null;
+  proof_url?: string | null; // Object name in the private proofs bucket; open with getProofLink
+  payment_method?: string | null;
+  cash_fallback_reason?: string | null;
+  delivery_latitude?: number | null;
+  delivery_longitude?: number | null;
+  delivery_timestamp?: string | null;
+  qr_ph?: string | null;
+  qr_expires_at?: string | null;
+  qr_generated_at?: string | null;
+  payrex_payment_intent_id?: string | null;
+  destination_latitude?: number | null;
+  destination_longitude?: number | null;
+  arrival_radius_m?: number | null;
+  arrival_distance_m?: number | null;
+  arrival_flagged?: boolean | null;
+  arrived_at?: string | null;
+  delivery_accuracy_m?: number | null;
+  delivery_mocked?: boolean | null;
+  delivery_distance_m?: number | null;
+  delivery_flags?: ('poor_accuracy' | 'mock_location' | 'outside_geofence')[] | null;
+  delivery_flagged?: boolean | null;
+  barangay?: string | null;
+  city?: string | null;
+  landmark?: string | null;
+  geocode_status?: 'pending' | 'geocoded' | 'approximate' | 'not_found' | 'failed' | null;
+}
+
+// A realtime change to one of the rider's orders
+export interface OrderChange {
+  type: 'INSERT' | 'UPDATE';
+  order: Order;
+  // The row before the change; null for orders the app hasn't seen yet
+  previous: Order | null;
+}
+
+type OrderChangeListener = (change: OrderChange) => void;
+
+interface OrdersContextType {
+  orders: Order[];
+  loading: boolean;
+  refresh: () => Promise<void>;
+  patchOrder: (orderId: string, patch: Partial<Order>) => void;
+  onOrderChange: (listener: OrderChangeListener) => () => void;
+}
+
+const OrdersContext = createContext<OrdersContextType>({
+  orders: [],
+  loading: true,
+  refresh: async () => {},
+  patchOrder: () => {},
+  onOrderChange: () => () => {},
+});
+
+export const useOrders = () => useContext(OrdersContext);
+
+/**
+ * Derive a view of the orders, recomputed only when the list changes
+ */
+export function useOrdersSelector<T>(selector: (orders: Order[]) => T): T {
+  const { orders } = useOrders();
+  return useMemo(() => selector(orders), [orders, selector]);
+}
+
+// --- Selectors ---
+
+export const selectActiveOrders = (orders: Order[]) =>
+  orders.filter(order => {
+    const status = normalizeOrderStatus(order.status);
+    return status === null || !DONE_STATUSES.includes(status);
+  });
+
+export const selectDoneOrders = (orders: Order[]) =>
+  orders.filter(order => {
+    const status = normalizeOrderStatus(order.status);
+    return status !== null && DONE_STATUSES.includes(status);
+  });
+
+// Active orders whose address has been geocoded
+export const selectActiveWithDestination = (orders: Order[]) =>
+  selectActiveOrders(orders).filter(order =>
+    order.destination_latitude != null && order.destination_longitude != null
+  );
+
+export const selectTodaysCompleted = (orders: Order[]) => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return orders.filter(order =>
+    normalizeOrderStatus(order.status) === 'COMPLETED' &&
+    new Date(order.delivery_timestamp ?? order.created_at) >= today
+  );
+};
+
+export const selectTodaysCompletedWithLocation = (orders: Order[]) =>
+  selectTodaysCompleted(orders).filter(order =>
+    order.delivery_latitude != null && order.delivery_longitude != null
+  );
+
+// Show the outcome of offline actions that haven't synced yet
+async function withPendingStatuses(rows: Order[]): Promise<Order[]> {
+  const queued = await getQueue();
+  return rows.map(order => ({ ...order, status: pendingStatusFor(queued, order.id) ?? order.status }));
+}
+
+/**
+ * The rider's orders, shared by every tab: one cache, one fetch and one
+ * realtime subscription.
+ */
+export const OrdersProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Rider whose cached or fetched list has been loaded; until then there is nothing to save
+  const [hydratedRiderId, setHydratedRiderId] = useState<string | null>(null);
+  const syncCursorRef = useRef<string | null>(null); // Latest updated_at seen, for delta sync
+  const ordersRef = useRef<Order[]>([]);
+  const listenersRef = useRef<Set<OrderChangeListener>>(new Set());
+  const riderId = user?.id;
+
+  ordersRef.current = orders;
+
+  // Merge server rows (realtime payloads, delta syncs) into the list
+  const applyOrderChanges = useCallback((changed: Order[]) => {
+    if (changed.length === 0) return;
+    syncCursorRef.current = advanceCursor(syncCursorRef.current, changed);
+    setOrders(prev => upsertOrders(prev, changed));
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!riderId) return;
+
+    // Fetch orders for the current logged-in rider only
+    const { data, error } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('rider_id', riderId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching orders:', error);
+    } else {
+      console.log(`Fetched ${data.length} orders`);
+      syncCursorRef.current = advanceCursor(null, data);
+      setOrders(await withPendingStatuses(data));
+      setHydratedRiderId(riderId);
+    }
+
+    setLoading(false);
+  }, [riderId]);
+
+  // Pull only the orders changed since the last sync
+  const syncOrderChanges = useCallback(async () => {
+    if (!riderId) return;
+    if (!syncCursorRef.current) {
+      await refresh();
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('rider_id', riderId)
+      .gt('updated_at', deltaSyncFrom(syncCursorRef.current));
+
+    if (error) {
+      // Usually just no signal; the next tick will try again
+      console.log('Delta sync skipped:', error.message);
+      return;
+    }
+    if (data.length > 0) {
+      console.log(`Delta sync: ${data.length} changed orders`);
+      applyOrderChanges(await withPendingStatuses(data));
+    }
+  }, [riderId, refresh, applyOrderChanges]);
+
+  const patchOrder = useCallback((orderId: string, patch: Partial<Order>) => {
+    setOrders(prev => prev.map(order => (order.id === orderId ? { ...order, ...patch } : order)));
+  }, []);
+
+  const onOrderChange = useCallback((listener: OrderChangeListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  // Load the cached list right away, then refresh it from the server
+  useEffect(() => {
+    setOrders([]);
+    syncCursorRef.current = null;
+    if (!riderId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    let cancelled = false;
+    loadOrderCache<Order>(riderId).then(cache => {
+      if (cancelled) return;
+      setHydratedRiderId(riderId);
+      if (!cache) return;
+      console.log(`Loaded ${cache.orders.length} cached orders`);
+      syncCursorRef.current = advanceCursor(syncCursorRef.current, cache.orders);
+      setOrders(prev => upsertOrders(cache.orders, prev));
+      setLoading(false);
+    });
+    refresh();
+    return () => {
+      cancelled = true;
+    };
+  }, [riderId, refresh]);
+
+  // Keep the on-device copy in step with the list, an empty one included, but
+  // only once it has been loaded so the cache isn't overwritten before it is read
+  useEffect(() => {
+    if (!riderId || hydratedRiderId !== riderId) return;
+    saveOrderCache(riderId, { orders, cursor: syncCursorRef.current });
+  }, [orders, riderId, hydratedRiderId]);
+
+  // Periodic delta sync
+  useEffect(() => {
+    if (!riderId) return;
+    const interval = setInterval(syncOrderChanges, DELTA_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [riderId, syncOrderChanges]);
+
+  // The single realtime subscription on orders; changes are patched into the list
+  useEffect(() => {
+    if (!riderId) return;
+
+    const handleChange = (type: OrderChange['type']) => (payload: any) => {
+      const order = payload.new as Order;
+      const previous = type === 'UPDATE'
+        ? (payload.old as Order)
+        : ordersRef.current.find(existing => existing.id === order.id) ?? null;
+
+      applyOrderChanges([order]);
+      listenersRef.current.forEach(listener => listener({ type, order, previous }));
+    };
+
+    const ordersChannel = supabase
+      .channel(`rider-orders:${riderId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'orders', filter: `rider_id=eq.${riderId}` },
+        handleChange('INSERT')
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'orders', filter: `rider_id=eq.${riderId}` },
+        handleChange('UPDATE')
+      )
+      .subscribe((status) => {
+        console.log('Real-time subscription status:', status);
+        if (status === 'SUBSCRIBED') {
+          console.log('✅ Successfully subscribed to real-time order updates');
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(ordersChannel);
+      console.log('🔌 Unsubscribed from real-time updates');
+    };
+  }, [riderId, applyOrderChanges]);
+
+  return (
+    <OrdersContext.Provider value={{ orders, loading, refresh, patchOrder, onOrderChange }}>
+      {children}
+    </OrdersContext.Provider>
+  );
+};
@@ -0,0 +1,56 @@
+/**
+ * Live distance from the rider to an order's destination while a screen is
+ * open, and whether they are inside its arrival geofence.
+ */
+
+import { useEffect, useState } from 'react';
+import * as Location from 'expo-location';
+import type { ArrivalFence } from '@/services/arrivalGeofence';
+import { type Coordinates, distanceMeters, isWithinRadius } from '@/services/locationService';
+
+type Fix = Coordinates & { accuracy?: number };
+
+export function useDestinationDistance(fence: ArrivalFence | null, enabled: boolean) {
+  const [fix, setFix] = useState<Fix | null>(null);
+  const watching = enabled && fence !== null;
+
+  useEffect(() => {
+    if (!watching) return;
+
+    let cancelled = false;
+    let subscription: Location.LocationSubscription | null = null;
+
+    // Only watch with permission already granted; asking is left to the arrival step
+    Location.getForegroundPermissionsAsync()
+      .then(async ({ status }) => {
+        if (status !== 'granted' || cancelled) return;
+        const watch = await Location.watchPositionAsync(
+          { accuracy: Location.Accuracy.High, timeInterval: 5 * 1000, distanceInterval: 10 },
+          position => setFix({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy ?? undefined,
+          })
+        );
+        if (cancelled) {
+          watch.remove();
+        } else {
+          subscription = watch;
+        }
+      })
+      .catch(error => console.error('Error watching position:', error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [watching]);
+
+  if (!watching || !fence || !fix) {
+    return { distance: null, atDestination: false };
+  }
+  return {
+    distance: distanceMeters(fix, fence),
+    atDestination: isWithinRadius(fix, fence, fence.radius),
+  };
+}
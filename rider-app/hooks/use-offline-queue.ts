@@ -0,0 +1,74 @@
+/**
+ * Tracks the offline action queue and replays it whenever the device comes back online.
+ * Actions set aside after failing repeatedly are kept in `failed` until retried or discarded.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  type FailedAction,
+  type FlushResult,
+  type QueuedAction,
+  discardFailedActions,
+  flushQueue,
+  pendingOrderIds,
+  retryFailedActions,
+  subscribeToFailedActions,
+  subscribeToQueue,
+  unsyncedOrderIds,
+} from '@/services/offlineQueue';
+
+export function useOfflineQueue(onFlushed?: (result: FlushResult) => void) {
+  const [queue, setQueue] = useState<QueuedAction[]>([]);
+  const [failed, setFailed] = useState<FailedAction[]>([]);
+  const [online, setOnline] = useState(true);
+  const onFlushedRef = useRef(onFlushed);
+  onFlushedRef.current = onFlushed;
+
+  const flush = useCallback(async () => {
+    const result = await flushQueue();
+    if (result.synced.length > 0 || result.conflicts.length > 0 || result.failed.length > 0) {
+      onFlushedRef.current?.(result);
+    }
+    return result;
+  }, []);
+
+  useEffect(() => subscribeToQueue(setQueue), []);
+  useEffect(() => subscribeToFailedActions(setFailed), []);
+
+  const retryFailed = useCallback(async () => {
+    await retryFailedActions();
+    return flush();
+  }, [flush]);
+
+  useEffect(() => {
+    return NetInfo.addEventListener(state => {
+      const connected = !!state.isConnected && state.isInternetReachable !== false;
+      setOnline(connected);
+      if (connected) flush();
+    });
+  }, [flush]);
+
+  const pendingIds = useMemo(() => pendingOrderIds(queue), [queue]);
+  const unsyncedIds = useMemo(() => unsyncedOrderIds(queue, failed), [queue, failed]);
+
+  return {
+    queue,
+    failed,
+    online,
+    pendingOrderIds: pendingIds,
+    unsyncedOrderIds: unsyncedIds,
+    flush,
+    retryFailed,
+    discardFailed: discardFailedActions,
+  };
+}
+
+/**
+ * Logout confirmation text, warning about deliveries the server has not received yet
+ */
+export function logoutMessage(unsyncedOrders: number): string {
+  if (unsyncedOrders === 0) return 'Are you sure you want to logout?';
+  const orders = unsyncedOrders === 1 ? '1 order has' : `${unsyncedOrders} orders have`;
+  return `${orders} not synced yet. They stay on this device and sync the next time you sign in here.`;
+}
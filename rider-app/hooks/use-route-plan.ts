@@ -0,0 +1,107 @@
+/**
+ * The rider's active orders in an optimised visiting order, starting from
+ * where they are now. Orders already under way come first, then the stops the
+ * rider pinned (in the order they pinned them), then the rest as planned.
+ * Orders without a geocoded destination are listed last, unnumbered.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { type Order, selectActiveOrders, useOrdersSelector } from '@/contexts/OrdersContext';
+import { normalizeOrderStatus } from '@/constants/orderStatus';
+import { type Coordinates, captureCurrentLocation } from '@/services/locationService';
+import { loadRoutePins, saveRoutePins } from '@/services/routePins';
+import { type RouteStop, planRoute } from '@/services/routePlanner';
+
+export interface PlannedStop {
+  order: Order;
+  // Position in the route; null for orders that can't be placed on it
+  stopNumber: number | null;
+  // Straight-line distance from the previous stop, or from the rider for the first
+  legMeters: number | null;
+  pinned: boolean;
+}
+
+const toRouteStop = (order: Order): RouteStop | null =>
+  order.destination_latitude != null && order.destination_longitude != null
+    ? { id: order.id, latitude: order.destination_latitude, longitude: order.destination_longitude }
+    : null;
+
+export function useRoutePlan() {
+  const { user } = useAuth();
+  const riderId = user?.id;
+  const activeOrders = useOrdersSelector(selectActiveOrders);
+  const [origin, setOrigin] = useState<Coordinates | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [pinnedIds, setPinnedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!riderId) return;
+    loadRoutePins(riderId).then(setPinnedIds);
+  }, [riderId]);
+
+  const togglePin = useCallback((orderId: string) => {
+    const toggled = pinnedIds.includes(orderId)
+      ? pinnedIds.filter(id => id !== orderId)
+      : [...pinnedIds, orderId];
+    // Drop pins for orders that have since been delivered or reassigned
+    const active = new Set(activeOrders.map(order => order.id));
+    const next = toggled.filter(id => active.has(id));
+    setPinnedIds(next);
+    if (riderId) saveRoutePins(riderId, next);
+  }, [pinnedIds, activeOrders, riderId]);
+
+  // Plan from the rider's current position; called again to re-optimise after moving
+  const locate = useCallback(async () => {
+    setLocating(true);
+    const location = await captureCurrentLocation();
+    if (location) setOrigin({ latitude: location.latitude, longitude: location.longitude });
+    setLocating(false);
+  }, []);
+
+  // Only ask for a fix once there is something to route
+  const hasRoutableStops = activeOrders.some(order => toRouteStop(order) !== null);
+  useEffect(() => {
+    if (hasRoutableStops && !origin) locate();
+  }, [hasRoutableStops, origin, locate]);
+
+  const { stops, totalMeters } = useMemo(() => {
+    const routeStops = activeOrders.map(toRouteStop).filter((stop): stop is RouteStop => !!stop);
+    const routable = new Set(routeStops.map(stop => stop.id));
+    const unlocated = activeOrders.filter(order => !routable.has(order.id));
+
+    if (routeStops.length === 0) {
+      return {
+        stops: unlocated.map((order): PlannedStop => ({ order, stopNumber: null, legMeters: null, pinned: false })),
+        totalMeters: 0,
+      };
+    }
+
+    const underWay = activeOrders
+      .filter(order => routable.has(order.id) && normalizeOrderStatus(order.status) !== 'PENDING')
+      .map(order => order.id);
+    const fixed = [...underWay, ...pinnedIds.filter(id => routable.has(id) && !underWay.includes(id))];
+
+    // Without a fix, start at the first stop the rider is committed to (or any stop)
+    const firstStop = routeStops.find(stop => stop.id === fixed[0]) ?? routeStops[0];
+    const plan = origin
+      ? planRoute(origin, routeStops, fixed)
+      : planRoute(firstStop, routeStops, [firstStop.id, ...fixed.filter(id => id !== firstStop.id)]);
+    const ordersById = new Map(activeOrders.map(order => [order.id, order]));
+
+    return {
+      stops: [
+        ...plan.legs.map((leg, index): PlannedStop => ({
+          order: ordersById.get(leg.id)!,
+          stopNumber: index + 1,
+          legMeters: origin || index > 0 ? leg.distanceMeters : null,
+          pinned: pinnedIds.includes(leg.id),
+        })),
+        ...unlocated.map((order): PlannedStop => ({ order, stopNumber: null, legMeters: null, pinned: false })),
+      ],
+      totalMeters: plan.totalMeters,
+    };
+  }, [activeOrders, origin, pinnedIds]);
+
+  return { stops, totalMeters, togglePin, reoptimise: locate, locating, fromCurrentLocation: origin !== null };
+}
@@ -0,0 +1,32 @@
+/**
+ * State for a screen's ToastNotification, with haptic feedback matching the toast type.
+ */
+
+import { useCallback, useState } from 'react';
+import * as Haptics from 'expo-haptics';
+import type { ToastType } from '@/components/ToastNotification';
+
+interface ToastState {
+  visible: boolean;
+  message: string;
+  type: ToastType;
+}
+
+export function useToast() {
+  const [toast, setToast] = useState<ToastState>({ visible: false, message: '', type: 'info' });
+
+  const showToast = useCallback((message: string, type: ToastType = 'info') => {
+    Haptics.notificationAsync(
+      type === 'success' ? Haptics.NotificationFeedbackType.Success :
+      type === 'error' ? Haptics.NotificationFeedbackType.Error :
+      Haptics.NotificationFeedbackType.Warning
+    );
+    setToast({ visible: true, message, type });
+  }, []);
+
+  const hideToast = useCallback(() => {
+    setToast(prev => ({ ...prev, visible: false }));
+  }, []);
+
+  return { toast, showToast, hideToast };
+}
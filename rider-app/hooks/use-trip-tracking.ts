@@ -0,0 +1,62 @@
+/**
+ * Keeps background trip tracking and the arrival geofence in step with the
+ * rider's orders: on while an order is EN_ROUTE, off once it has ARRIVED or
+ * is otherwise done.
+ */
+
+import { useEffect } from 'react';
+import * as Battery from 'expo-battery';
+import { normalizeOrderStatus } from '@/constants/orderStatus';
+import { useOrders } from '@/contexts/OrdersContext';
+import { arrivalFenceFor, startArrivalGeofence, stopArrivalGeofence } from '@/services/arrivalGeofence';
+import { startTripTracking, stopTripTracking, uploadBreadcrumbs } from '@/services/tripTracking';
+
+export function useTripTracking() {
+  const { orders, loading } = useOrders();
+  // A rider carries one order at a time; if several are EN_ROUTE the newest is traced
+  const trackedOrder = orders.find(order => normalizeOrderStatus(order.status) === 'EN_ROUTE') ?? null;
+  const trackedOrderId = trackedOrder?.id ?? null;
+  const fence = trackedOrder ? arrivalFenceFor(trackedOrder) : null;
+  const fenceLatitude = fence?.latitude;
+  const fenceLongitude = fence?.longitude;
+  const fenceRadius = fence?.radius;
+
+  useEffect(() => {
+    if (loading) return;
+    if (!trackedOrderId) {
+      stopTripTracking();
+      stopArrivalGeofence();
+      return;
+    }
+
+    startTripTracking(trackedOrderId).then(started => {
+      if (started && fenceLatitude != null && fenceLongitude != null && fenceRadius != null) {
+        startArrivalGeofence({
+          orderId: trackedOrderId,
+          latitude: fenceLatitude,
+          longitude: fenceLongitude,
+          radius: fenceRadius,
+        });
+      } else {
+        stopArrivalGeofence();
+      }
+    });
+  }, [trackedOrderId, loading, fenceLatitude, fenceLongitude, fenceRadius]);
+
+  // Retune the sampling rate when the battery runs low or is plugged in
+  useEffect(() => {
+    if (!trackedOrderId) return;
+    const retune = () => startTripTracking(trackedOrderId);
+    const subscriptions = [
+      Battery.addLowPowerModeListener(retune),
+      Battery.addBatteryStateListener(retune),
+      Battery.addBatteryLevelListener(retune),
+    ];
+    return () => subscriptions.forEach(subscription => subscription.remove());
+  }, [trackedOrderId]);
+
+  // Send breadcrumbs left over from an earlier session
+  useEffect(() => {
+    uploadBreadcrumbs();
+  }, []);
+}
@@ -0,0 +1,13 @@
+// Learn more https://docs.expo.dev/guides/customizing-metro
+const path = require('path');
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// Code shared with the Supabase edge functions (see constants/orderStatus.ts)
+config.watchFolders = [
+  ...(config.watchFolders ?? []),
+  path.resolve(__dirname, '../supabase/functions/_shared'),
+];
+
+module.exports = config;
@@ -0,0 +1,97 @@
+/**
+ * Arrival Geofence
+ * Watches for the rider entering the circle around an EN_ROUTE order's
+ * destination and offers to mark the order as arrived.
+ */
+
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { claimStatusNotification, notifyNearDestination } from './notificationService';
+
+export const ARRIVAL_GEOFENCE_TASK = 'arrival-geofence';
+
+// Same as the orders.arrival_radius_m column default
+export const DEFAULT_ARRIVAL_RADIUS_M = 150;
+
+export interface ArrivalFence {
+  orderId: string;
+  latitude: number;
+  longitude: number;
+  radius: number;
+}
+
+interface FencedOrder {
+  id: string;
+  destination_latitude?: number | null;
+  destination_longitude?: number | null;
+  arrival_radius_m?: number | null;
+}
+
+/**
+ * The geofence around an order's destination, or null if it hasn't been geocoded
+ */
+export function arrivalFenceFor(order: FencedOrder): ArrivalFence | null {
+  if (order.destination_latitude == null || order.destination_longitude == null) return null;
+  return {
+    orderId: order.id,
+    latitude: order.destination_latitude,
+    longitude: order.destination_longitude,
+    radius: order.arrival_radius_m ?? DEFAULT_ARRIVAL_RADIUS_M,
+  };
+}
+
+// Defined at module scope so the task exists when the OS wakes the app in the background
+TaskManager.defineTask<{ eventType: Location.GeofencingEventType; region: Location.LocationRegion }>(
+  ARRIVAL_GEOFENCE_TASK,
+  async ({ data, error }) => {
+    if (error) {
+      console.error('Arrival geofence error:', error.message);
+      return;
+    }
+
+    const orderId = data?.region?.identifier;
+    if (data?.eventType !== Location.GeofencingEventType.Enter || !orderId) return;
+
+    console.log(`📍 Entered the drop-off area for order ${orderId}`);
+    if (claimStatusNotification(orderId, 'NEAR_DESTINATION')) {
+      await notifyNearDestination(orderId);
+    }
+  }
+);
+
+/**
+ * Watch one order's geofence, replacing any fence watched before.
+ * Needs background location, which trip tracking asks for.
+ */
+export async function startArrivalGeofence(fence: ArrivalFence): Promise<boolean> {
+  try {
+    const { status } = await Location.getBackgroundPermissionsAsync();
+    if (status !== 'granted') return false;
+
+    await Location.startGeofencingAsync(ARRIVAL_GEOFENCE_TASK, [{
+      identifier: fence.orderId,
+      latitude: fence.latitude,
+      longitude: fence.longitude,
+      radius: fence.radius,
+      notifyOnEnter: true,
+      notifyOnExit: false,
+    }]);
+    return true;
+  } catch (error) {
+    console.error('Error starting arrival geofence:', error);
+    return false;
+  }
+}
+
+/**
+ * Stop watching for arrival
+ */
+export async function stopArrivalGeofence(): Promise<void> {
+  try {
+    if (await Location.hasStartedGeofencingAsync(ARRIVAL_GEOFENCE_TASK)) {
+      await Location.stopGeofencingAsync(ARRIVAL_GEOFENCE_TASK);
+    }
+  } catch (error) {
+    console.error('Error stopping arrival geofence:', error);
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Delivery Service
+ * Riders can't update orders directly. Trips start through the start_trip
+ * database function, arrival goes through mark_arrived, which checks the
+ * rider's GPS fix against the order's geofence, and deliveries are completed
+ * through complete_delivery, which validates and commits the proof, location
+ * and payment in one transaction. Before taking cash the order's QR is
+ * cancelled through generate-qr, so the customer can't also pay it.
+ */
+
+import { FunctionsFetchError, FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../supabaseClient';
+
+export type PaymentMethod = 'CASH' | 'QRPH';
+
+export type CashFallbackReason = 'QR_PAYMENT_UNAVAILABLE' | 'CUSTOMER_REQUEST';
+
+// Error codes raised by start_trip, mark_arrived and complete_delivery (supabase/migrations/),
+// and by generate-qr when cancelling a QR
+export type DeliveryErrorCode =
+  | 'order_not_found'
+  | 'invalid_status'
+  | 'payment_required'
+  | 'cash_reason_required'
+  | 'invalid_payment_method'
+  | 'location_required'
+  | 'invalid_location'
+  | 'outside_geofence'
+  | 'proof_required'
+  | 'proof_not_found'
+  | 'qr_payable'
+  | 'already_paid'
+  | 'unknown';
+
+const DELIVERY_ERROR_CODES: DeliveryErrorCode[] = [
+  'order_not_found',
+  'invalid_status',
+  'payment_required',
+  'cash_reason_required',
+  'invalid_payment_method',
+  'location_required',
+  'invalid_location',
+  'outside_geofence',
+  'proof_required',
+  'proof_not_found',
+  'qr_payable',
+  'already_paid',
+];
+
+// What the rider sees for each error
+const ERROR_MESSAGES: Record<DeliveryErrorCode, string> = {
+  order_not_found: 'Order not found',
+  invalid_status: 'This order can no longer be updated',
+  payment_required: 'QR payment has not been confirmed yet',
+  cash_reason_required: 'Select why the customer paid cash',
+  invalid_payment_method: 'Unknown payment method',
+  location_required: 'GPS location is required to complete a delivery',
+  invalid_location: 'GPS location looks invalid, please try again',
+  outside_geofence: 'You are not at the delivery address yet',
+  proof_required: 'A proof of delivery photo is required',
+  proof_not_found: 'Proof photo upload was not found, please retake it',
+  qr_payable: 'The payment QR must be cancelled before taking cash',
+  already_paid: 'The customer has already paid by QR',
+  unknown: 'Failed to complete delivery',
+};
+
+export class DeliveryError extends Error {
+  constructor(public code: DeliveryErrorCode, public detail?: string) {
+    super(ERROR_MESSAGES[code]);
+    this.name = 'DeliveryError';
+  }
+}
+
+export interface MarkArrivedInput {
+  orderId: string;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy?: number | null;
+  arrivedAt: Date;
+  // Arrive even though the fix is outside the order's geofence; the order is flagged for review
+  outsideFenceOk?: boolean;
+}
+
+export interface CompleteDeliveryInput {
+  orderId: string;
+  paymentMethod: PaymentMethod;
+  // Object name of the uploaded photo in the proofs bucket
+  proofPath: string;
+  // SHA-256 of the uploaded photo, so a replaced proof can be detected later
+  proofSha256?: string | null;
+  latitude: number;
+  longitude: number;
+  deliveredAt: Date;
+  cashReason?: CashFallbackReason;
+  // Fix quality; complete_delivery flags the order for review on a poor or mocked fix
+  accuracy?: number | null;
+  mocked?: boolean;
+}
+
+// Accuracy worse than this gets a delivery flagged (see complete_delivery)
+export const POOR_ACCURACY_METERS = 100;
+
+// Signed proof links only need to last while the rider looks at the photo
+const PROOF_LINK_TTL_SECONDS = 5 * 60;
+
+function toDeliveryError(rpc: string, error: { message: string; details?: string | null }): DeliveryError {
+  const code = DELIVERY_ERROR_CODES.find(known => known === error.message) ?? 'unknown';
+  if (code === 'unknown') console.error(`${rpc} failed:`, error);
+  return new DeliveryError(code, error.details ?? error.message);
+}
+
+/**
+ * Move a PENDING order to EN_ROUTE and return the updated order.
+ * Throws a DeliveryError when the server rejects the change.
+ */
+export async function startTrip<T = Record<string, unknown>>(orderId: string): Promise<T> {
+  const { data, error } = await supabase.rpc('start_trip', { p_order_id: orderId });
+
+  if (error) throw toDeliveryError('start_trip', error);
+  return data as T;
+}
+
+/**
+ * Mark an EN_ROUTE order as ARRIVED and return the updated order.
+ * Throws a DeliveryError when the server rejects the arrival.
+ */
+export async function markArrived<T = Record<string, unknown>>(input: MarkArrivedInput): Promise<T> {
+  const { data, error } = await supabase.rpc('mark_arrived', {
+    p_order_id: input.orderId,
+    p_latitude: input.latitude,
+    p_longitude: input.longitude,
+    p_accuracy: input.accuracy ?? null,
+    p_arrived_at: input.arrivedAt.toISOString(),
+    p_outside_fence_ok: input.outsideFenceOk ?? false,
+  });
+
+  if (error) throw toDeliveryError('mark_arrived', error);
+  return data as T;
+}
+
+/**
+ * Complete a delivery and return the updated order.
+ * Throws a DeliveryError when the server rejects the completion.
+ */
+export async function completeDelivery<T = Record<string, unknown>>(input: CompleteDeliveryInput): Promise<T> {
+  const { data, error } = await supabase.rpc('complete_delivery', {
+    p_order_id: input.orderId,
+    p_payment_method: input.paymentMethod,
+    p_proof_url: input.proofPath,
+    p_latitude: input.latitude,
+    p_longitude: input.longitude,
+    p_delivered_at: input.deliveredAt.toISOString(),
+    p_cash_reason: input.paymentMethod === 'CASH' ? input.cashReason ?? null : null,
+    p_accuracy: input.accuracy ?? null,
+    p_mocked: input.mocked ?? false,
+    p_proof_sha256: input.proofSha256 ?? null,
+  });
+
+  if (error) throw toDeliveryError('complete_delivery', error);
+  return data as T;
+}
+
+/**
+ * Cancel the order's payment QR before the rider takes cash. Resolves once no
+ * QR for the order can be paid any more (also when there was none).
+ * Throws a DeliveryError: `already_paid` if the customer paid it, `unknown`
+ * if the gateway or the network could not be reached.
+ */
+export async function cancelQrPayment(orderId: string): Promise<void> {
+  const { error } = await supabase.functions.invoke('generate-qr', {
+    body: { orderId, action: 'cancel' },
+  });
+  if (!error) return;
+
+  if (error instanceof FunctionsFetchError) {
+    // Same detail as other transport failures, so callers can queue the delivery
+    throw new DeliveryError('unknown', 'Network request failed');
+  }
+  if (error instanceof FunctionsHttpError) {
+    const details = await error.context.json().catch(() => null);
+    const code = DELIVERY_ERROR_CODES.find(known => known === details?.code) ?? 'unknown';
+    if (code === 'unknown') console.error('generate-qr cancel failed:', details);
+    throw new DeliveryError(code, details?.error ?? error.message);
+  }
+  throw new DeliveryError('unknown', error.message);
+}
+
+/**
+ * A short-lived link to an order's proof photo; the proofs bucket is private.
+ * Returns null if the order has no uploaded proof.
+ */
+export async function getProofLink(proofPath: string | null | undefined): Promise<string | null> {
+  if (!proofPath) return null;
+  // Orders completed before proof_url held the object name store its public URL
+  const legacyName = proofPath.match(/\/proofs\/([^?]+)/)?.[1];
+  const objectName = legacyName ? decodeURIComponent(legacyName) : proofPath;
+
+  const { data, error } = await supabase.storage
+    .from('proofs')
+    .createSignedUrl(objectName, PROOF_LINK_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error signing proof link:', error);
+    return null;
+  }
+  return data.signedUrl;
+}
@@ -5,11 +5,20 @@
 
 import * as Location from 'expo-location';
 
+const EARTH_RADIUS_METERS = 6371000;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
 export interface DeliveryLocation {
   latitude: number;
   longitude: number;
   timestamp: Date;
   accuracy?: number;
+  // Reported by Android when the fix comes from a mock-location app
+  mocked?: boolean;
 }
 
 /**
@@ -25,6 +34,24 @@ export async function requestLocationPermission(): Promise<boolean> {
   }
 }
 
+/**
+ * Request "always" location access for trip tracking
+ * Foreground access has to be granted before background access can be asked for
+ */
+export async function requestBackgroundLocationPermission(): Promise<boolean> {
+  try {
+    const { status: background } = await Location.getBackgroundPermissionsAsync();
+    if (background === 'granted') return true;
+
+    if (!(await requestLocationPermission())) return false;
+    const { status } = await Location.requestBackgroundPermissionsAsync();
+    return status === 'granted';
+  } catch (error) {
+    console.error('Error requesting background location permission:', error);
+    return false;
+  }
+}
+
 /**
  * Capture current GPS coordinates
  * Returns null if permission denied or location unavailable
@@ -51,6 +78,7 @@ export async function captureCurrentLocation(): Promise<DeliveryLocation | null>
       longitude: location.coords.longitude,
       timestamp: new Date(location.timestamp),
       accuracy: location.coords.accuracy || undefined,
+      mocked: location.mocked ?? false,
     };
   } catch (error) {
     console.error('Error capturing location:', error);
@@ -58,6 +86,36 @@ export async function captureCurrentLocation(): Promise<DeliveryLocation | null>
   }
 }
 
+/**
+ * Great-circle distance between two points in metres
+ * Same formula as public.distance_meters, which mark_arrived uses for the geofence
+ */
+export function distanceMeters(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Whether a fix is inside a geofence, giving it the benefit of its own error margin
+ * Capped at the radius, like mark_arrived, so a poor fix can't stretch the fence
+ */
+export function isWithinRadius(location: Coordinates & { accuracy?: number }, center: Coordinates, radiusMeters: number): boolean {
+  const credit = Math.min(Math.max(location.accuracy ?? 0, 0), radiusMeters);
+  return distanceMeters(location, center) - credit <= radiusMeters;
+}
+
+/**
+ * Format a distance for display, e.g. "80 m" or "1.2 km"
+ */
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
 /**
  * Format coordinates for display
  */
@@ -65,6 +123,18 @@ export function formatCoordinates(latitude: number, longitude: number): string {
   return `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
 }
 
+/**
+ * Google Maps turn-by-turn directions from the rider's position to a
+ * destination, given as coordinates or, before geocoding, the address itself.
+ * Opens the Maps app when it is installed.
+ */
+export function getDirectionsLink(destination: Coordinates | string): string {
+  const target = typeof destination === 'string'
+    ? encodeURIComponent(destination)
+    : `${destination.latitude},${destination.longitude}`;
+  return `https://www.google.com/maps/dir/?api=1&destination=${target}&travelmode=driving`;
+}
+
 /**
  * Generate Google Maps link from coordinates
  */
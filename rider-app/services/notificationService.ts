@@ -1,55 +1,182 @@
 import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import Constants, { ExecutionEnvironment } from 'expo-constants';
+import { supabase } from '../supabaseClient';
+import { normalizeOrderStatus } from '@/constants/orderStatus';
 
-// Note: Push notifications are not supported in Expo Go
-// This service provides fallback functionality using toast notifications only
-// For full push notification support, use a development build
+// Android channel for order and payment alerts; send-push targets the same id
+const ORDER_CHANNEL_ID = 'default';
 
 export interface NotificationData extends Record<string, unknown> {
   orderId?: string;
-  type?: 'new_order' | 'payment_confirmed' | 'status_change';
+  type?: 'new_order' | 'payment_confirmed' | 'payment_failed' | 'qr_invalidated' | 'refunded' | 'status_change' | 'near_destination';
   status?: string;
 }
 
+// While the app is open, realtime updates already raise a toast and a local
+// notification, so the matching server push would only duplicate them.
+Notifications.setNotificationHandler({
+  handleNotification: async (notification) => {
+    const { trigger } = notification.request;
+    const isRemote = !!trigger && 'type' in trigger && trigger.type === 'push';
+    return {
+      shouldShowBanner: !isRemote,
+      shouldShowList: true,
+      shouldPlaySound: !isRemote,
+      shouldSetBadge: false,
+    };
+  },
+});
+
+// The token this device registered in device_tokens, if any
+let registeredToken: string | null = null;
+
+// Order statuses already announced, keyed `<orderId>_<status>`
+const notifiedStatuses = new Set<string>();
+
+/**
+ * Claim the one notification for an order reaching a status. Returns false if
+ * it was already sent, e.g. by the rider's own update before its realtime echo.
+ */
+export function claimStatusNotification(orderId: string, status: string): boolean {
+  const key = `${orderId}_${status}`;
+  if (notifiedStatuses.has(key)) return false;
+  notifiedStatuses.add(key);
+  return true;
+}
+
 /**
- * Request notification permissions from the user
- * Note: Returns null in Expo Go as push notifications are not supported
+ * Ask for notification permission and register this device's Expo push token
+ * for the signed-in rider. Returns null when push isn't available (simulator,
+ * Expo Go, permission denied); local notifications still work in that case.
  */
 export async function registerForPushNotificationsAsync(): Promise<string | null> {
-  console.log('Push notifications not available in Expo Go. Using toast notifications only.');
-  return null;
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(ORDER_CHANNEL_ID, {
+      name: 'Orders and payments',
+      importance: Notifications.AndroidImportance.HIGH,
+      vibrationPattern: [0, 250, 250, 250],
+    });
+  }
+
+  const { status: existingStatus } = await Notifications.getPermissionsAsync();
+  let finalStatus = existingStatus;
+  if (existingStatus !== 'granted') {
+    const { status } = await Notifications.requestPermissionsAsync();
+    finalStatus = status;
+  }
+  if (finalStatus !== 'granted') {
+    console.log('Notification permission not granted');
+    return null;
+  }
+
+  if (!Device.isDevice) {
+    console.log('Push notifications need a physical device; using local notifications only');
+    return null;
+  }
+  if (Constants.executionEnvironment === ExecutionEnvironment.StoreClient) {
+    console.log('Push notifications are not available in Expo Go; use a development build');
+    return null;
+  }
+
+  const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+  if (!projectId) {
+    console.warn('No EAS projectId configured; cannot get a push token');
+    return null;
+  }
+
+  try {
+    const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+    // Claims the token for this rider even if another rider used the device before
+    const { error } = await supabase.rpc('register_device_token', {
+      p_token: token,
+      p_platform: Platform.OS,
+    });
+    if (error) {
+      console.error('Error registering push token:', error.message);
+      return null;
+    }
+
+    registeredToken = token;
+    console.log('Registered push token:', token);
+    return token;
+  } catch (error) {
+    // Usually no signal; registration is retried on the next launch
+    console.warn('Could not get push token:', error);
+    return null;
+  }
 }
 
 /**
- * Schedule a local notification
- * Note: Not available in Expo Go - logs to console instead
+ * Stop pushes to this device (e.g. on sign out). Must run while still signed in.
+ */
+export async function unregisterPushToken(): Promise<void> {
+  if (!registeredToken) return;
+
+  const { error } = await supabase.from('device_tokens').delete().eq('token', registeredToken);
+  if (error) {
+    console.error('Error removing push token:', error.message);
+    return;
+  }
+  registeredToken = null;
+}
+
+/**
+ * Show a notification on this device right away
  */
 export async function scheduleLocalNotification(
   title: string,
   body: string,
   data?: NotificationData
 ): Promise<string> {
-  console.log(`[Notification] ${title}: ${body}`);
-  return '';
+  try {
+    return await Notifications.scheduleNotificationAsync({
+      content: { title, body, data: data ?? {}, sound: 'default' },
+      trigger: Platform.OS === 'android' ? { channelId: ORDER_CHANNEL_ID } : null,
+    });
+  } catch (error) {
+    console.error('Error scheduling notification:', error);
+    return '';
+  }
 }
 
 /**
- * Cancel all scheduled notifications
- * Note: Not available in Expo Go
+ * Cancel all scheduled notifications and clear the ones already shown
  */
 export async function cancelAllNotifications(): Promise<void> {
-  console.log('[Notification] Cancel all notifications called');
+  await Notifications.cancelAllScheduledNotificationsAsync();
+  await Notifications.dismissAllNotificationsAsync();
 }
 
 /**
- * Set up notification listeners
- * Note: Not available in Expo Go - returns empty cleanup
+ * Set up notification listeners. A tap that launched the app is delivered to
+ * onNotificationTapped as well. Returns a cleanup function.
  */
 export function setupNotificationListeners(
-  onNotificationReceived?: (notification: any) => void,
-  onNotificationTapped?: (response: any) => void
+  onNotificationReceived?: (notification: Notifications.Notification) => void,
+  onNotificationTapped?: (response: Notifications.NotificationResponse) => void
 ) {
-  console.log('[Notification] Listeners setup (Expo Go - no-op)');
-  return () => {}; // Return empty cleanup function
+  const receivedSubscription = Notifications.addNotificationReceivedListener(notification => {
+    onNotificationReceived?.(notification);
+  });
+  const responseSubscription = Notifications.addNotificationResponseReceivedListener(response => {
+    onNotificationTapped?.(response);
+  });
+
+  let active = true;
+  Notifications.getLastNotificationResponseAsync().then(response => {
+    if (!active || !response) return;
+    onNotificationTapped?.(response);
+    Notifications.clearLastNotificationResponseAsync();
+  });
+
+  return () => {
+    active = false;
+    receivedSubscription.remove();
+    responseSubscription.remove();
+  };
 }
 
 /**
@@ -74,6 +201,39 @@ export async function notifyPaymentConfirmed(orderId: string, customerName: stri
   );
 }
 
+/**
+ * Send a local notification for a failed QR payment
+ */
+export async function notifyPaymentFailed(orderId: string, customerName: string) {
+  return scheduleLocalNotification(
+    '❌ Payment Failed',
+    `${customerName}'s QRPH payment did not go through`,
+    { orderId, type: 'payment_failed', status: 'PAYMENT_FAILED' }
+  );
+}
+
+/**
+ * Send a local notification when a QR expires or is cancelled by the gateway
+ */
+export async function notifyQrInvalidated(orderId: string, customerName: string) {
+  return scheduleLocalNotification(
+    '⏱️ QR No Longer Valid',
+    `The QR for ${customerName} expired or was cancelled`,
+    { orderId, type: 'qr_invalidated' }
+  );
+}
+
+/**
+ * Send a local notification for a refunded payment
+ */
+export async function notifyRefunded(orderId: string, customerName: string) {
+  return scheduleLocalNotification(
+    '↩️ Payment Refunded',
+    `The QRPH payment from ${customerName} was refunded`,
+    { orderId, type: 'refunded', status: 'REFUNDED' }
+  );
+}
+
 /**
  * Send a local notification for status change
  */
@@ -82,9 +242,8 @@ export async function notifyStatusChange(orderId: string, customerName: string,
   let body = `${customerName} - Status: ${newStatus}`;
   
   // Customize notification based on status
-  switch(newStatus.toUpperCase()) {
+  switch(normalizeOrderStatus(newStatus)) {
     case 'EN_ROUTE':
-    case 'ENROUTE':
       title = '🚗 Trip Started';
       body = `On the way to ${customerName}`;
       break;
@@ -127,6 +286,17 @@ export async function notifyArrival(orderId: string, customerName: string) {
   );
 }
 
+/**
+ * Offer to mark arrival once the rider reaches the drop-off
+ */
+export async function notifyNearDestination(orderId: string) {
+  return scheduleLocalNotification(
+    '📍 You\'re at the Drop-off',
+    `Tap to confirm arrival for order #${orderId.slice(0, 8)}`,
+    { orderId, type: 'near_destination' }
+  );
+}
+
 /**
  * Send a local notification for completion
  */
@@ -0,0 +1,580 @@
+/**
+ * Offline Action Queue
+ * Records rider actions (status changes, arrival and proof of delivery with GPS) while
+ * there is no signal, persists them on device and replays them in order once
+ * connectivity returns. Each rider has their own queue; one left behind at
+ * sign out is replayed when that rider signs in again.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { Directory, File, Paths } from 'expo-file-system';
+import { supabase } from '../supabaseClient';
+import type { OrderStatus } from '@/constants/orderStatus';
+import {
+  type CashFallbackReason,
+  type PaymentMethod,
+  type MarkArrivedInput,
+  DeliveryError,
+  cancelQrPayment,
+  completeDelivery,
+  markArrived,
+  startTrip,
+} from './deliveryService';
+import { hashProof } from './proofStamp';
+
+const STORAGE_KEY_PREFIX = 'offline-queue:v1:';
+const FAILED_STORAGE_KEY_PREFIX = 'offline-queue:failed:v1:';
+
+// Saved before queues were kept per rider
+const LEGACY_STORAGE_KEY = 'offline-queue:v1';
+const LEGACY_FAILED_STORAGE_KEY = 'offline-queue:failed:v1';
+
+// Replays that fail for a reason other than the network before the action is set aside
+const MAX_ATTEMPTS = 5;
+
+// Proof photos waiting to be uploaded; the camera cache can be cleared at any time
+const PENDING_PROOFS_DIR = 'pending-proofs';
+
+interface BaseAction {
+  id: string;
+  orderId: string;
+  queuedAt: string;
+  // Failed replays other than network failures
+  attempts: number;
+}
+
+export interface StatusAction extends BaseAction {
+  type: 'status';
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+}
+
+export interface ArriveAction extends BaseAction {
+  type: 'arrive';
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  arrivedAt: string;
+  outsideFenceOk: boolean;
+}
+
+export interface CompleteAction extends BaseAction {
+  type: 'complete';
+  paymentMethod: PaymentMethod;
+  cashReason?: CashFallbackReason;
+  photoUri: string;
+  fileName: string;
+  latitude: number;
+  longitude: number;
+  // Missing on completions queued before accuracy was recorded
+  accuracy?: number | null;
+  mocked?: boolean;
+  deliveredAt: string;
+}
+
+export type QueuedAction = StatusAction | ArriveAction | CompleteAction;
+
+export interface SyncConflict {
+  action: QueuedAction;
+  reason: string;
+}
+
+// An action that kept failing on the device, kept until the rider retries or discards it
+export interface FailedAction {
+  action: QueuedAction;
+  reason: string;
+  failedAt: string;
+}
+
+export interface FlushResult {
+  synced: QueuedAction[];
+  conflicts: SyncConflict[];
+  // Set aside during this flush
+  failed: FailedAction[];
+  remaining: number;
+}
+
+type QueueListener = (queue: QueuedAction[]) => void;
+type FailedListener = (failed: FailedAction[]) => void;
+
+// Thrown by a replay when the server state no longer allows the action
+class ConflictError extends Error {}
+
+// Thrown by a replay that would fail the same way every time
+class PermanentError extends Error {}
+
+// The signed-in rider whose queue is loaded; null while signed out
+let owner: string | null = null;
+let queue: QueuedAction[] | null = null;
+let failedActions: FailedAction[] | null = null;
+let flushing: Promise<FlushResult> | null = null;
+const listeners = new Set<QueueListener>();
+const failedListeners = new Set<FailedListener>();
+
+async function loadStored<T>(key: string, legacyKey: string): Promise<T[]> {
+  const stored = await AsyncStorage.getItem(key);
+  if (stored) return JSON.parse(stored);
+
+  // The first rider to sign in after the update takes over the shared queue
+  const legacy = await AsyncStorage.getItem(legacyKey);
+  if (!legacy) return [];
+  await AsyncStorage.setItem(key, legacy);
+  await AsyncStorage.removeItem(legacyKey);
+  return JSON.parse(legacy);
+}
+
+async function loadQueue(): Promise<QueuedAction[]> {
+  if (queue) return queue;
+  const riderId = owner;
+  if (!riderId) return [];
+
+  let loaded: QueuedAction[];
+  try {
+    loaded = await loadStored(`${STORAGE_KEY_PREFIX}${riderId}`, LEGACY_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error loading offline queue:', error);
+    loaded = [];
+  }
+  // Another rider may have signed in meanwhile
+  if (owner !== riderId) return loadQueue();
+  queue = queue ?? loaded;
+  return queue;
+}
+
+async function saveQueue(next: QueuedAction[]) {
+  if (!owner) throw new Error('No rider is signed in');
+  queue = next;
+  await AsyncStorage.setItem(`${STORAGE_KEY_PREFIX}${owner}`, JSON.stringify(next));
+  listeners.forEach(listener => listener(next));
+}
+
+async function loadFailed(): Promise<FailedAction[]> {
+  if (failedActions) return failedActions;
+  const riderId = owner;
+  if (!riderId) return [];
+
+  let loaded: FailedAction[];
+  try {
+    loaded = await loadStored(`${FAILED_STORAGE_KEY_PREFIX}${riderId}`, LEGACY_FAILED_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error loading failed offline actions:', error);
+    loaded = [];
+  }
+  if (owner !== riderId) return loadFailed();
+  failedActions = failedActions ?? loaded;
+  return failedActions;
+}
+
+async function saveFailed(next: FailedAction[]) {
+  if (!owner) throw new Error('No rider is signed in');
+  failedActions = next;
+  await AsyncStorage.setItem(`${FAILED_STORAGE_KEY_PREFIX}${owner}`, JSON.stringify(next));
+  failedListeners.forEach(listener => listener(next));
+}
+
+/**
+ * Switch to the signed-in rider's queue (null on sign out). Actions queued by
+ * another rider stay on the device until that rider signs in again.
+ */
+export function setQueueOwner(riderId: string | null) {
+  if (riderId === owner) return;
+  owner = riderId;
+  queue = null;
+  failedActions = null;
+  loadQueue().then(current => listeners.forEach(listener => listener(current)));
+  loadFailed().then(current => failedListeners.forEach(listener => listener(current)));
+}
+
+function deleteStoredPhoto(action: QueuedAction) {
+  if (action.type !== 'complete') return;
+  const photo = new File(action.photoUri);
+  if (photo.exists) photo.delete();
+}
+
+function newActionId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Whether an error means the request never reached the server
+ */
+export function isNetworkError(error: unknown): boolean {
+  // Database function calls wrap transport failures; the original message is in the detail
+  if (error instanceof DeliveryError) {
+    return error.code === 'unknown' && isNetworkError({ message: error.detail });
+  }
+  const message = error instanceof Error ? error.message : (error as { message?: string })?.message;
+  return !!message && /network request failed|failed to fetch|network ?error|timed? ?out|fetch failed/i.test(message);
+}
+
+/**
+ * Whether the device currently has a usable connection
+ */
+export async function isOnline(): Promise<boolean> {
+  const state = await NetInfo.fetch();
+  return !!state.isConnected && state.isInternetReachable !== false;
+}
+
+export async function getQueue(): Promise<QueuedAction[]> {
+  return [...(await loadQueue())];
+}
+
+/**
+ * Listen for queue changes. Returns an unsubscribe function.
+ */
+export function subscribeToQueue(listener: QueueListener): () => void {
+  listeners.add(listener);
+  loadQueue().then(current => listener(current));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Listen for changes to the actions set aside after failing. Returns an unsubscribe function.
+ */
+export function subscribeToFailedActions(listener: FailedListener): () => void {
+  failedListeners.add(listener);
+  loadFailed().then(current => listener(current));
+  return () => {
+    failedListeners.delete(listener);
+  };
+}
+
+/**
+ * Put the actions that were set aside back at the front of the queue, in the
+ * order they were recorded, with a fresh set of attempts
+ */
+export async function retryFailedActions() {
+  await flushing?.catch(() => undefined);
+  const failed = await loadFailed();
+  if (failed.length === 0) return;
+  const retried = failed
+    .map(({ action }) => ({ ...action, attempts: 0 }))
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  await saveQueue([...retried, ...(await loadQueue())]);
+  await saveFailed([]);
+}
+
+/**
+ * Give up on the actions that were set aside, with their stored proof photos
+ */
+export async function discardFailedActions() {
+  (await loadFailed()).forEach(({ action }) => deleteStoredPhoto(action));
+  await saveFailed([]);
+}
+
+/**
+ * Queue a status change made while offline
+ */
+export async function enqueueStatusChange(orderId: string, fromStatus: OrderStatus, toStatus: OrderStatus) {
+  const current = await loadQueue();
+  const action: StatusAction = {
+    id: newActionId(),
+    type: 'status',
+    orderId,
+    fromStatus,
+    toStatus,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  await saveQueue([...current, action]);
+  console.log(`📥 Queued status change ${fromStatus} → ${toStatus} for order ${orderId}`);
+  return action;
+}
+
+/**
+ * Queue an arrival made while offline, with the GPS fix it was made from
+ */
+export async function enqueueArrival(input: MarkArrivedInput) {
+  const current = await loadQueue();
+  const action: ArriveAction = {
+    id: newActionId(),
+    type: 'arrive',
+    orderId: input.orderId,
+    latitude: input.latitude,
+    longitude: input.longitude,
+    accuracy: input.accuracy ?? null,
+    arrivedAt: input.arrivedAt.toISOString(),
+    outsideFenceOk: input.outsideFenceOk ?? false,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  await saveQueue([...current, action]);
+  console.log(`📥 Queued arrival for order ${input.orderId}`);
+  return action;
+}
+
+/**
+ * Queue a proof of delivery made while offline. The photo is copied into app
+ * storage so it survives until it has been uploaded.
+ */
+export async function enqueueCompletion(input: {
+  orderId: string;
+  paymentMethod: PaymentMethod;
+  cashReason?: CashFallbackReason;
+  photoUri: string;
+  fileName: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  mocked?: boolean;
+  deliveredAt: Date;
+}) {
+  const directory = new Directory(Paths.document, PENDING_PROOFS_DIR);
+  directory.create({ idempotent: true });
+  const photo = new File(directory, input.fileName);
+  if (!photo.exists) new File(input.photoUri).copy(photo);
+
+  const current = await loadQueue();
+  const action: CompleteAction = {
+    id: newActionId(),
+    type: 'complete',
+    orderId: input.orderId,
+    paymentMethod: input.paymentMethod,
+    cashReason: input.cashReason,
+    photoUri: photo.uri,
+    fileName: input.fileName,
+    latitude: input.latitude,
+    longitude: input.longitude,
+    accuracy: input.accuracy ?? null,
+    mocked: input.mocked ?? false,
+    deliveredAt: input.deliveredAt.toISOString(),
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  await saveQueue([...current, action]);
+  console.log(`📥 Queued proof of delivery for order ${input.orderId}`);
+  return action;
+}
+
+/**
+ * Order ids with actions still waiting to sync
+ */
+export function pendingOrderIds(actions: QueuedAction[]): Set<string> {
+  return new Set(actions.map(action => action.orderId));
+}
+
+/**
+ * Orders with actions still queued or set aside after failing, i.e. not yet on the server
+ */
+export function unsyncedOrderIds(actions: QueuedAction[], failed: FailedAction[]): Set<string> {
+  return new Set([...pendingOrderIds(actions), ...failed.map(entry => entry.action.orderId)]);
+}
+
+/**
+ * The status an order will have once its queued actions are synced
+ */
+export function pendingStatusFor(actions: QueuedAction[], orderId: string): OrderStatus | null {
+  let status: OrderStatus | null = null;
+  for (const action of actions) {
+    if (action.orderId !== orderId) continue;
+    if (action.type === 'status') status = action.toStatus;
+    else status = action.type === 'arrive' ? 'ARRIVED' : 'COMPLETED';
+  }
+  return status;
+}
+
+async function replayStatusChange(action: StatusAction) {
+  // Queued before arrival went through mark_arrived; the missing fix gets it flagged
+  if (action.toStatus === 'ARRIVED') {
+    await replayArrival({
+      ...action,
+      type: 'arrive',
+      latitude: null,
+      longitude: null,
+      accuracy: null,
+      arrivedAt: action.queuedAt,
+      outsideFenceOk: true,
+    });
+    return;
+  }
+
+  if (action.toStatus !== 'EN_ROUTE') {
+    throw new ConflictError(`Cannot replay a change to ${action.toStatus}`);
+  }
+
+  // start_trip rejects the change if someone else moved the order in the meantime,
+  // and returns it unchanged if a previous attempt already applied it
+  try {
+    await startTrip(action.orderId);
+  } catch (error) {
+    if (error instanceof DeliveryError && error.code !== 'unknown') {
+      throw new ConflictError(
+        error.code === 'invalid_status' ? `Order is no longer ${action.fromStatus}` : error.message
+      );
+    }
+    throw error;
+  }
+}
+
+async function replayArrival(action: ArriveAction) {
+  try {
+    await markArrived({
+      orderId: action.orderId,
+      latitude: action.latitude,
+      longitude: action.longitude,
+      accuracy: action.accuracy,
+      arrivedAt: new Date(action.arrivedAt),
+      outsideFenceOk: action.outsideFenceOk,
+    });
+  } catch (error) {
+    if (error instanceof DeliveryError && error.code !== 'unknown') {
+      throw new ConflictError(error.message);
+    }
+    throw error;
+  }
+}
+
+async function replayCompletion(action: CompleteAction) {
+  const photo = new File(action.photoUri);
+  if (!photo.exists) throw new ConflictError('Proof photo is missing from the device');
+
+  try {
+    await uploadAndComplete(action, photo);
+  } catch (error) {
+    // The server rejected the delivery; the stored photo is no longer needed
+    if (error instanceof ConflictError && photo.exists) photo.delete();
+    throw error;
+  }
+
+  if (photo.exists) photo.delete();
+}
+
+async function uploadAndComplete(action: CompleteAction, photo: File) {
+  const response = await fetch(photo.uri);
+  const arrayBuffer = await response.arrayBuffer();
+
+  const { error: uploadError } = await supabase.storage
+    .from('proofs')
+    .upload(action.fileName, arrayBuffer, {
+      contentType: 'image/jpeg',
+      upsert: false,
+    });
+
+  // A previous attempt may have uploaded the photo before losing signal
+  if (uploadError && !/already exists|duplicate/i.test(uploadError.message)) {
+    if (isNetworkError(uploadError)) throw uploadError;
+    throw new ConflictError(uploadError.message);
+  }
+
+  const proofSha256 = await hashProof(arrayBuffer);
+
+  try {
+    // Cash taken without signal: the QR could not be cancelled at the door
+    if (action.paymentMethod === 'CASH') await cancelQrPayment(action.orderId);
+    await completeDelivery({
+      orderId: action.orderId,
+      paymentMethod: action.paymentMethod,
+      cashReason: action.cashReason,
+      proofPath: action.fileName,
+      proofSha256,
+      latitude: action.latitude,
+      longitude: action.longitude,
+      accuracy: action.accuracy,
+      mocked: action.mocked,
+      deliveredAt: new Date(action.deliveredAt),
+    });
+  } catch (error) {
+    if (error instanceof DeliveryError && error.code !== 'unknown') {
+      throw new ConflictError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Move an action out of the queue into the failed list, together with the
+ * later actions for the same order, which can't be replayed without it
+ */
+async function setAside(action: QueuedAction, reason: string): Promise<FailedAction[]> {
+  const current = await loadQueue();
+  const index = current.findIndex(queued => queued.id === action.id);
+  const moved = current.filter((queued, i) =>
+    queued.id === action.id || (i > index && queued.orderId === action.orderId)
+  );
+  const failedAt = new Date().toISOString();
+  const failed = moved.map(queued => ({
+    action: queued.id === action.id ? action : queued,
+    reason: queued.id === action.id ? reason : 'An earlier action for this order failed to sync',
+    failedAt,
+  }));
+
+  await saveFailed([...(await loadFailed()), ...failed]);
+  await saveQueue(current.filter(queued => !moved.includes(queued)));
+  return failed;
+}
+
+async function replayAction(action: QueuedAction): Promise<void> {
+  switch (action.type) {
+    case 'status':
+      return replayStatusChange(action);
+    case 'arrive':
+      return replayArrival(action);
+    case 'complete':
+      return replayCompletion(action);
+    default:
+      // Stored by a version of the app that knew other actions
+      throw new PermanentError(`Unknown action type ${(action as QueuedAction).type}`);
+  }
+}
+
+/**
+ * Replay queued actions in the order they were recorded. Stops at the first
+ * network failure so later actions never overtake earlier ones; actions the
+ * server rejects are dropped and reported as conflicts. An action that keeps
+ * failing on the device is set aside so it doesn't hold up the rest.
+ */
+export function flushQueue(): Promise<FlushResult> {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+async function runFlush(): Promise<FlushResult> {
+  const result: FlushResult = { synced: [], conflicts: [], failed: [], remaining: 0 };
+
+  // Re-read the queue each step: actions may be queued while a flush is running.
+  // Stop if the rider signs out; the rest waits for their next sign-in.
+  const riderId = owner;
+  let action: QueuedAction | undefined;
+  while (owner === riderId && (action = (await loadQueue())[0])) {
+    const current: QueuedAction = action;
+    try {
+      await replayAction(current);
+      result.synced.push(current);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+
+      if (error instanceof ConflictError) {
+        console.warn(`⚠️ Sync conflict for order ${current.orderId}:`, reason);
+        result.conflicts.push({ action: current, reason });
+      } else if (isNetworkError(error)) {
+        // Still offline (or the server is unreachable); keep this and everything after it
+        console.log('Offline queue paused:', reason);
+        break;
+      } else {
+        const attempts = current.attempts + 1;
+        if (attempts < MAX_ATTEMPTS && !(error instanceof PermanentError)) {
+          // Keep the order of actions and try again on the next flush
+          console.log(`Offline queue paused after ${attempts} failed attempt${attempts === 1 ? '' : 's'}:`, reason);
+          await saveQueue((await loadQueue()).map(queued =>
+            queued.id === current.id ? { ...queued, attempts } : queued
+          ));
+          break;
+        }
+        console.warn(`⚠️ Setting aside offline action for order ${current.orderId}:`, reason);
+        result.failed.push(...await setAside({ ...current, attempts }, reason));
+        continue;
+      }
+    }
+    await saveQueue((await loadQueue()).filter(queued => queued.id !== current.id));
+  }
+
+  result.remaining = (await loadQueue()).length;
+  return result;
+}
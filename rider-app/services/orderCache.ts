@@ -0,0 +1,91 @@
+/**
+ * Order Cache
+ * Persists the rider's orders on device so the list renders instantly at
+ * launch, and merges realtime payloads and delta syncs into it.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const CACHE_KEY_PREFIX = 'orders-cache:v1:';
+
+// How often to pull orders changed since the last sync
+export const DELTA_SYNC_INTERVAL_MS = 60 * 1000;
+
+// Re-read a little before the cursor so rows committed late by a slow transaction aren't missed
+const DELTA_SYNC_OVERLAP_MS = 60 * 1000;
+
+export interface CacheableOrder {
+  id: string;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+export interface OrderCache<T extends CacheableOrder> {
+  orders: T[];
+  // Highest updated_at seen from the server; the next delta sync starts here
+  cursor: string | null;
+}
+
+const cacheKey = (riderId: string) => `${CACHE_KEY_PREFIX}${riderId}`;
+
+// PostgREST and realtime format timestamps differently, so compare them as dates
+const timeOf = (timestamp: string) => new Date(timestamp).getTime();
+
+export async function loadOrderCache<T extends CacheableOrder>(riderId: string): Promise<OrderCache<T> | null> {
+  try {
+    const stored = await AsyncStorage.getItem(cacheKey(riderId));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading order cache:', error);
+    return null;
+  }
+}
+
+export async function saveOrderCache<T extends CacheableOrder>(riderId: string, cache: OrderCache<T>) {
+  try {
+    await AsyncStorage.setItem(cacheKey(riderId), JSON.stringify(cache));
+  } catch (error) {
+    console.error('Error saving order cache:', error);
+  }
+}
+
+/**
+ * Remove every rider's cached orders (e.g. on sign out)
+ */
+export async function clearOrderCaches() {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(CACHE_KEY_PREFIX)));
+}
+
+/**
+ * Merge changed rows into the list by id, never replacing a row with an older
+ * version of itself. Keeps the newest orders first.
+ */
+export function upsertOrders<T extends CacheableOrder>(orders: T[], changed: T[]): T[] {
+  const byId = new Map(orders.map(order => [order.id, order]));
+
+  for (const order of changed) {
+    const existing = byId.get(order.id);
+    if (existing?.updated_at && order.updated_at && timeOf(existing.updated_at) > timeOf(order.updated_at)) continue;
+    byId.set(order.id, existing ? { ...existing, ...order } : order);
+  }
+
+  return [...byId.values()].sort((a, b) => timeOf(b.created_at) - timeOf(a.created_at));
+}
+
+/**
+ * Advance the sync cursor past the given rows
+ */
+export function advanceCursor(cursor: string | null, orders: CacheableOrder[]): string | null {
+  return orders.reduce<string | null>(
+    (latest, order) => (order.updated_at && (!latest || timeOf(order.updated_at) > timeOf(latest)) ? order.updated_at : latest),
+    cursor
+  );
+}
+
+/**
+ * Lower bound for the next delta sync
+ */
+export function deltaSyncFrom(cursor: string): string {
+  return new Date(timeOf(cursor) - DELTA_SYNC_OVERLAP_MS).toISOString();
+}
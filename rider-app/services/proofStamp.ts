@@ -0,0 +1,107 @@
+/**
+ * Proof Stamp
+ * Makes proof-of-delivery photos hold up in a dispute: the watermarked JPEG
+ * (drawn by components/ProofStamper) gets EXIF with the order, capture time
+ * and GPS fix, and the uploaded bytes are hashed so the copy stored in the
+ * `proofs` bucket can later be checked against the hash on the order.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { File, Paths } from 'expo-file-system';
+import piexif from 'piexifjs';
+import { type DeliveryLocation, formatCoordinates } from './locationService';
+
+export interface ProofDetails {
+  orderId: string;
+  takenAt: Date;
+  location: DeliveryLocation;
+}
+
+// EXIF the camera wrote; keys are flat on Android and grouped under {TIFF} on iOS
+type CameraExif = Record<string, unknown> | null | undefined;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// EXIF dates are local time as "YYYY:MM:DD HH:MM:SS"
+const exifDate = (date: Date) =>
+  `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ` +
+  `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+// Offset from UTC as "+08:00"
+const exifOffset = (date: Date) => {
+  const minutes = -date.getTimezoneOffset();
+  const sign = minutes >= 0 ? '+' : '-';
+  return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+};
+
+// A text tag from the camera's EXIF, wherever the platform put it
+function cameraTag(cameraExif: CameraExif, tag: string): string | undefined {
+  const tiff = cameraExif?.['{TIFF}'];
+  const value = cameraExif?.[tag] ?? (typeof tiff === 'object' && tiff !== null
+    ? (tiff as Record<string, unknown>)[tag]
+    : undefined);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Text drawn onto the photo: order number, capture time and GPS fix
+ */
+export function watermarkLines({ orderId, takenAt, location }: ProofDetails): string[] {
+  const accuracy = location.accuracy !== undefined ? ` ±${Math.round(location.accuracy)} m` : '';
+  return [
+    `Order #${orderId.slice(0, 8)}`,
+    `${takenAt.toLocaleString()} (UTC${exifOffset(takenAt)})`,
+    `${formatCoordinates(location.latitude, location.longitude)}${accuracy}`,
+  ];
+}
+
+/**
+ * Write EXIF with the order, capture time and GPS fix into a JPEG, keeping the
+ * camera's make and model. Returns the URI of the new file.
+ */
+export async function attachProofExif(uri: string, details: ProofDetails, cameraExif?: CameraExif): Promise<string> {
+  const { orderId, takenAt, location } = details;
+  const make = cameraTag(cameraExif, 'Make');
+  const model = cameraTag(cameraExif, 'Model');
+
+  const exif: piexif.ExifDict = {
+    '0th': {
+      // piexifjs predates the EXIF offset tags, so the time zone goes here
+      [piexif.ImageIFD.ImageDescription]: `Proof of delivery for order ${orderId} (UTC${exifOffset(takenAt)})`,
+      [piexif.ImageIFD.Software]: 'GoSpire Rider',
+      [piexif.ImageIFD.DateTime]: exifDate(takenAt),
+      ...(make && { [piexif.ImageIFD.Make]: make }),
+      ...(model && { [piexif.ImageIFD.Model]: model }),
+    },
+    Exif: {
+      [piexif.ExifIFD.DateTimeOriginal]: exifDate(takenAt),
+    },
+    GPS: {
+      [piexif.GPSIFD.GPSLatitudeRef]: location.latitude >= 0 ? 'N' : 'S',
+      [piexif.GPSIFD.GPSLatitude]: piexif.GPSHelper.degToDmsRational(Math.abs(location.latitude)),
+      [piexif.GPSIFD.GPSLongitudeRef]: location.longitude >= 0 ? 'E' : 'W',
+      [piexif.GPSIFD.GPSLongitude]: piexif.GPSHelper.degToDmsRational(Math.abs(location.longitude)),
+      ...(location.accuracy !== undefined && {
+        [piexif.GPSIFD.GPSHPositioningError]: [Math.round(location.accuracy * 100), 100],
+      }),
+    },
+  };
+
+  // piexifjs works on binary strings
+  const jpeg = atob(await new File(uri).base64());
+  const stamped = piexif.insert(piexif.dump(exif), jpeg);
+
+  const output = new File(Paths.cache, `proof_${orderId}_${takenAt.getTime()}.jpg`);
+  if (output.exists) output.delete();
+  output.create();
+  output.write(btoa(stamped), { encoding: 'base64' });
+  return output.uri;
+}
+
+/**
+ * SHA-256 of the exact bytes uploaded as proof, as lowercase hex
+ */
+export async function hashProof(bytes: ArrayBuffer): Promise<string> {
+  const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, new Uint8Array(bytes));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,37 @@
+/**
+ * Route Pins
+ * Stops the rider pinned to the front of their route, persisted per rider so
+ * they survive restarts.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const PINS_KEY_PREFIX = 'route-pins:v1:';
+
+const pinsKey = (riderId: string) => `${PINS_KEY_PREFIX}${riderId}`;
+
+export async function loadRoutePins(riderId: string): Promise<string[]> {
+  try {
+    const stored = await AsyncStorage.getItem(pinsKey(riderId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading pinned stops:', error);
+    return [];
+  }
+}
+
+export async function saveRoutePins(riderId: string, orderIds: string[]) {
+  try {
+    await AsyncStorage.setItem(pinsKey(riderId), JSON.stringify(orderIds));
+  } catch (error) {
+    console.error('Error saving pinned stops:', error);
+  }
+}
+
+/**
+ * Remove every rider's pinned stops (e.g. on sign out)
+ */
+export async function clearRoutePins() {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(PINS_KEY_PREFIX)));
+}
@@ -0,0 +1,95 @@
+/**
+ * Route Planner
+ * Orders a rider's stops into a short visiting sequence on the device:
+ * nearest neighbour to get a reasonable route, then 2-opt to untangle it.
+ * Distances are straight lines, so no routing API or signal is needed.
+ */
+
+import { type Coordinates, distanceMeters } from './locationService';
+
+export interface RouteStop extends Coordinates {
+  id: string;
+}
+
+export interface RouteLeg {
+  id: string;
+  // From the previous stop (or the starting point for the first one)
+  distanceMeters: number;
+}
+
+export interface RoutePlan {
+  legs: RouteLeg[];
+  totalMeters: number;
+}
+
+// Enough to settle a day's stops; caps the work on unusually long lists
+const MAX_TWO_OPT_PASSES = 50;
+
+function nearestNeighbour(start: Coordinates, stops: RouteStop[]): RouteStop[] {
+  const remaining = [...stops];
+  const route: RouteStop[] = [];
+  let current: Coordinates = start;
+
+  while (remaining.length > 0) {
+    let nearest = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (distanceMeters(current, remaining[i]) < distanceMeters(current, remaining[nearest])) nearest = i;
+    }
+    const next = remaining.splice(nearest, 1)[0];
+    route.push(next);
+    current = next;
+  }
+  return route;
+}
+
+// Reverse segments while that shortens the path. The route is open: it starts
+// at `start` and ends at whichever stop is last.
+function twoOpt(start: Coordinates, route: RouteStop[]): RouteStop[] {
+  const best = [...route];
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < best.length - 1; i++) {
+      const before = i === 0 ? start : best[i - 1];
+      for (let j = i + 1; j < best.length; j++) {
+        const after = best[j + 1];
+        const current = distanceMeters(before, best[i]) + (after ? distanceMeters(best[j], after) : 0);
+        const reversed = distanceMeters(before, best[j]) + (after ? distanceMeters(best[i], after) : 0);
+
+        // Ignore float noise so equal-length routes don't flip back and forth
+        if (reversed < current - 0.01) {
+          best.splice(i, j - i + 1, ...best.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+  return best;
+}
+
+/**
+ * Plan a visiting order starting from `start`.
+ * `fixed` stops are kept at the front, in the order given (stops the rider
+ * pinned, or is already delivering); the rest are optimised after them.
+ */
+export function planRoute(start: Coordinates, stops: RouteStop[], fixed: string[] = []): RoutePlan {
+  const byId = new Map(stops.map(stop => [stop.id, stop]));
+  const head = fixed.map(id => byId.get(id)).filter((stop): stop is RouteStop => !!stop);
+  const headIds = new Set(head.map(stop => stop.id));
+  const rest = stops.filter(stop => !headIds.has(stop.id));
+
+  const from = head.length > 0 ? head[head.length - 1] : start;
+  const route = [...head, ...twoOpt(from, nearestNeighbour(from, rest))];
+
+  const legs: RouteLeg[] = [];
+  let previous = start;
+  for (const stop of route) {
+    legs.push({ id: stop.id, distanceMeters: distanceMeters(previous, stop) });
+    previous = stop;
+  }
+
+  return { legs, totalMeters: legs.reduce((total, leg) => total + leg.distanceMeters, 0) };
+}
@@ -0,0 +1,255 @@
+/**
+ * Trip Tracking
+ * Samples the rider's position in the background while an order is EN_ROUTE
+ * and uploads the breadcrumbs to rider_locations in batches, so dispatch can
+ * follow the rider live and each order keeps a trace of its trip.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Battery from 'expo-battery';
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { supabase } from '../supabaseClient';
+import { requestBackgroundLocationPermission } from './locationService';
+
+export const TRIP_TRACKING_TASK = 'trip-tracking';
+
+const TRIP_KEY = 'trip-tracking:v1:trip';
+const BUFFER_KEY = 'trip-tracking:v1:buffer';
+
+// Upload once this many points are waiting, or the oldest has waited this long
+const UPLOAD_BATCH_SIZE = 20;
+const UPLOAD_INTERVAL_MS = 60 * 1000;
+
+// Unsent points kept on device while offline (a couple of hours of riding); oldest dropped first
+const MAX_BUFFERED_POINTS = 500;
+
+// Fixes less accurate than this (tunnels, basements) are noise on a trip trace
+const MAX_ACCURACY_METERS = 100;
+
+// Below this charge, and not plugged in, switch to the battery saver rate
+const LOW_BATTERY_LEVEL = 0.2;
+
+export type SamplingMode = 'normal' | 'battery_saver';
+
+const SAMPLING: Record<SamplingMode, Location.LocationTaskOptions> = {
+  normal: {
+    accuracy: Location.Accuracy.High,
+    timeInterval: 15 * 1000,
+    distanceInterval: 30,
+  },
+  battery_saver: {
+    accuracy: Location.Accuracy.Balanced,
+    timeInterval: 60 * 1000,
+    distanceInterval: 150,
+  },
+};
+
+interface Trip {
+  orderId: string;
+  mode: SamplingMode;
+}
+
+// A row of rider_locations; rider_id defaults to the signed-in rider
+interface Breadcrumb {
+  order_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  speed: number | null;
+  heading: number | null;
+  recorded_at: string;
+}
+
+// Starts, stops and buffer writes run one at a time
+let pending: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(work: () => Promise<T>): Promise<T> {
+  const next = pending.then(work, work);
+  pending = next.catch(() => {});
+  return next;
+}
+
+// Ask for background location once per order, not on every battery change
+let declinedOrderId: string | null = null;
+
+async function loadTrip(): Promise<Trip | null> {
+  try {
+    const stored = await AsyncStorage.getItem(TRIP_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading trip:', error);
+    return null;
+  }
+}
+
+async function loadBuffer(): Promise<Breadcrumb[]> {
+  try {
+    const stored = await AsyncStorage.getItem(BUFFER_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading breadcrumbs:', error);
+    return [];
+  }
+}
+
+async function saveBuffer(buffer: Breadcrumb[]) {
+  try {
+    await AsyncStorage.setItem(BUFFER_KEY, JSON.stringify(buffer.slice(-MAX_BUFFERED_POINTS)));
+  } catch (error) {
+    console.error('Error saving breadcrumbs:', error);
+  }
+}
+
+/**
+ * Pick the sampling rate for the current battery: low power mode, or a low
+ * charge while unplugged, samples less often and less precisely.
+ */
+export async function currentSamplingMode(): Promise<SamplingMode> {
+  try {
+    const [level, state, lowPowerMode] = await Promise.all([
+      Battery.getBatteryLevelAsync(),
+      Battery.getBatteryStateAsync(),
+      Battery.isLowPowerModeEnabledAsync(),
+    ]);
+    if (lowPowerMode) return 'battery_saver';
+
+    const charging = state === Battery.BatteryState.CHARGING || state === Battery.BatteryState.FULL;
+    // The level is -1 when the platform can't report it
+    return !charging && level >= 0 && level < LOW_BATTERY_LEVEL ? 'battery_saver' : 'normal';
+  } catch (error) {
+    console.error('Error reading battery state:', error);
+    return 'normal';
+  }
+}
+
+async function uploadBuffered(): Promise<void> {
+  const buffer = await loadBuffer();
+  if (buffer.length === 0) return;
+
+  const { error } = await supabase.from('rider_locations').insert(buffer);
+  if (error) {
+    // RLS (order reassigned, rider signed out) and constraint errors won't pass on a retry
+    if (error.code === '42501' || error.code?.startsWith('23')) {
+      console.warn(`Dropped ${buffer.length} breadcrumbs the server rejected:`, error.message);
+    } else {
+      // Usually just no signal; they go with the next batch
+      console.log('Breadcrumb upload deferred:', error.message);
+      return;
+    }
+  }
+
+  // Points recorded during the upload stay for the next one
+  const latest = await loadBuffer();
+  await saveBuffer(latest.slice(buffer.length));
+}
+
+/**
+ * Upload any breadcrumbs still waiting on device
+ */
+export function uploadBreadcrumbs(): Promise<void> {
+  return serialized(uploadBuffered);
+}
+
+async function recordLocations(trip: Trip, locations: Location.LocationObject[]) {
+  const breadcrumbs: Breadcrumb[] = locations
+    .filter(location => (location.coords.accuracy ?? 0) <= MAX_ACCURACY_METERS)
+    .map(location => ({
+      order_id: trip.orderId,
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+      accuracy: location.coords.accuracy,
+      speed: location.coords.speed,
+      heading: location.coords.heading,
+      recorded_at: new Date(location.timestamp).toISOString(),
+    }));
+  if (breadcrumbs.length === 0) return;
+
+  const buffer = [...(await loadBuffer()), ...breadcrumbs];
+  await saveBuffer(buffer);
+
+  const oldest = new Date(buffer[0].recorded_at).getTime();
+  if (buffer.length >= UPLOAD_BATCH_SIZE || Date.now() - oldest >= UPLOAD_INTERVAL_MS) {
+    await uploadBuffered();
+  }
+}
+
+// Defined at module scope so the task exists when the OS wakes the app in the background
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(TRIP_TRACKING_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('Trip tracking error:', error.message);
+    return;
+  }
+  if (!data?.locations?.length) return;
+
+  await serialized(async () => {
+    const trip = await loadTrip();
+    if (trip) await recordLocations(trip, data.locations);
+  });
+});
+
+/**
+ * Start (or retune) background tracking for an order that is on its way.
+ * Does nothing if the order is already tracked at the current battery rate.
+ * Returns false if the rider hasn't allowed background location.
+ */
+export function startTripTracking(orderId: string): Promise<boolean> {
+  return serialized(async () => {
+    try {
+      const mode = await currentSamplingMode();
+      const trip = await loadTrip();
+      const running = await Location.hasStartedLocationUpdatesAsync(TRIP_TRACKING_TASK);
+      if (running && trip?.orderId === orderId && trip.mode === mode) return true;
+      if (declinedOrderId === orderId) return false;
+
+      if (!(await requestBackgroundLocationPermission())) {
+        console.log('Background location permission denied, trip not tracked');
+        declinedOrderId = orderId;
+        return false;
+      }
+
+      await AsyncStorage.setItem(TRIP_KEY, JSON.stringify({ orderId, mode }));
+      await Location.startLocationUpdatesAsync(TRIP_TRACKING_TASK, {
+        ...SAMPLING[mode],
+        // Let the OS batch fixes instead of waking the app for each one
+        deferredUpdatesInterval: SAMPLING[mode].timeInterval,
+        activityType: Location.ActivityType.AutomotiveNavigation,
+        showsBackgroundLocationIndicator: true,
+        foregroundService: {
+          notificationTitle: 'Delivery in progress',
+          notificationBody: 'Sharing your location with dispatch until you arrive',
+          notificationColor: '#007AFF',
+        },
+      });
+
+      console.log(`📍 Trip tracking ${trip?.orderId === orderId ? 'retuned' : 'started'} for order ${orderId} (${mode})`);
+      return true;
+    } catch (error) {
+      console.error('Error starting trip tracking:', error);
+      return false;
+    }
+  });
+}
+
+/**
+ * Stop background tracking and upload what's left of the trip
+ */
+export function stopTripTracking(): Promise<void> {
+  return serialized(async () => {
+    try {
+      if (await Location.hasStartedLocationUpdatesAsync(TRIP_TRACKING_TASK)) {
+        await Location.stopLocationUpdatesAsync(TRIP_TRACKING_TASK);
+      }
+
+      const trip = await loadTrip();
+      if (trip) {
+        await AsyncStorage.removeItem(TRIP_KEY);
+        console.log(`📍 Trip tracking stopped for order ${trip.orderId}`);
+      }
+
+      await uploadBuffered();
+    } catch (error) {
+      console.error('Error stopping trip tracking:', error);
+    }
+  });
+}
@@ -0,0 +1,32 @@
+/**
+ * Fixture-backed geocoder for offline testing.
+ *
+ * Resolves only the addresses listed in fixtures.ts, ignoring case,
+ * punctuation and spacing. Everything else is reported as not found. An
+ * address containing "geocoder-error" makes the lookup throw, to check the
+ * retry path.
+ */
+
+import { GEOCODE_FIXTURES } from './fixtures.ts'
+import type { GeocodingProvider } from './types.ts'
+
+const normalize = (address: string) =>
+  address.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+
+const FIXTURES = new Map(
+  Object.entries(GEOCODE_FIXTURES).map(([address, result]) => [normalize(address), result])
+)
+
+export const fixtureProvider: GeocodingProvider = {
+  name: 'fixture',
+
+  geocode(address: string) {
+    if (address.includes('geocoder-error')) {
+      return Promise.reject(new Error('[fixture] Simulated geocoder failure'))
+    }
+
+    const result = FIXTURES.get(normalize(address)) ?? null
+    console.log(`[fixture] ${result ? 'Geocoded' : 'No match for'} "${address}"`)
+    return Promise.resolve(result)
+  },
+}
@@ -0,0 +1,74 @@
+/**
+ * Known addresses for the fixture geocoder, covering the orders in
+ * supabase/seed.sql. Add an entry here to geocode a new test address.
+ */
+
+import type { GeocodeResult } from './types.ts'
+
+export const GEOCODE_FIXTURES: Record<string, GeocodeResult> = {
+  '123 Rizal Ave, Sta. Cruz, Manila': {
+    latitude: 14.6043,
+    longitude: 120.9822,
+    precision: 'exact',
+    barangay: 'Barangay 310',
+    city: 'Manila',
+    landmark: 'Near LRT Doroteo Jose Station',
+  },
+  '45 Katipunan Ave, Loyola Heights, Quezon City': {
+    latitude: 14.6395,
+    longitude: 121.0771,
+    precision: 'exact',
+    barangay: 'Loyola Heights',
+    city: 'Quezon City',
+    landmark: 'Across Ateneo de Manila University',
+  },
+  '8 Jupiter St, Bel-Air, Makati': {
+    latitude: 14.5621,
+    longitude: 121.0293,
+    precision: 'exact',
+    barangay: 'Bel-Air',
+    city: 'Makati',
+    landmark: null,
+  },
+  '210 Shaw Blvd, Mandaluyong': {
+    latitude: 14.5812,
+    longitude: 121.0536,
+    precision: 'exact',
+    barangay: 'Highway Hills',
+    city: 'Mandaluyong',
+    landmark: 'Near Shaw Boulevard MRT Station',
+  },
+  '17 Aguirre Ave, BF Homes, Parañaque': {
+    latitude: 14.4505,
+    longitude: 121.0227,
+    precision: 'exact',
+    barangay: 'BF Homes',
+    city: 'Parañaque',
+    landmark: null,
+  },
+  '99 Ortigas Ave, Pasig': {
+    latitude: 14.5869,
+    longitude: 121.0614,
+    precision: 'exact',
+    barangay: 'Ugong',
+    city: 'Pasig',
+    landmark: null,
+  },
+  '5 Panay Ave, Quezon City': {
+    latitude: 14.6371,
+    longitude: 121.0351,
+    precision: 'exact',
+    barangay: 'South Triangle',
+    city: 'Quezon City',
+    landmark: null,
+  },
+  // City-level match only: exercises the approximate path (no arrival geofence)
+  'Quezon City': {
+    latitude: 14.6760,
+    longitude: 121.0437,
+    precision: 'approximate',
+    barangay: null,
+    city: 'Quezon City',
+    landmark: null,
+  },
+}
@@ -0,0 +1,84 @@
+/**
+ * Google Geocoding API provider
+ */
+
+import type { GeocodePrecision, GeocodeResult, GeocodingProvider } from './types.ts'
+
+// Override with a local stand-in for offline testing
+const GOOGLE_GEOCODING_URL = Deno.env.get('GOOGLE_GEOCODING_URL') ?? 'https://maps.googleapis.com/maps/api/geocode/json'
+
+interface GoogleAddressComponent {
+  long_name: string
+  short_name: string
+  types: string[]
+}
+
+interface GoogleGeocodeResult {
+  address_components: GoogleAddressComponent[]
+  geometry: {
+    location: { lat: number; lng: number }
+    location_type: 'ROOFTOP' | 'RANGE_INTERPOLATED' | 'GEOMETRIC_CENTER' | 'APPROXIMATE'
+  }
+  partial_match?: boolean
+}
+
+interface GoogleGeocodeResponse {
+  status: string
+  error_message?: string
+  results: GoogleGeocodeResult[]
+}
+
+// Google reports barangays as sublocalities or neighbourhoods depending on the area
+const BARANGAY_TYPES = ['sublocality_level_1', 'sublocality', 'neighborhood']
+const CITY_TYPES = ['locality', 'administrative_area_level_2']
+const LANDMARK_TYPES = ['point_of_interest', 'establishment', 'premise']
+
+function componentOf(result: GoogleGeocodeResult, types: string[]): string | null {
+  for (const type of types) {
+    const component = result.address_components.find((candidate) => candidate.types.includes(type))
+    if (component) return component.long_name
+  }
+  return null
+}
+
+function precisionOf(result: GoogleGeocodeResult): GeocodePrecision {
+  // A street-level or better fix; anything coarser can't anchor an arrival geofence
+  const exact = result.geometry.location_type === 'ROOFTOP' || result.geometry.location_type === 'RANGE_INTERPOLATED'
+  return exact && !result.partial_match ? 'exact' : 'approximate'
+}
+
+export const googleProvider: GeocodingProvider = {
+  name: 'google',
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    const apiKey = Deno.env.get('GOOGLE_MAPS_API_KEY')
+    if (!apiKey) throw new Error('GOOGLE_MAPS_API_KEY is not configured')
+
+    const url = new URL(GOOGLE_GEOCODING_URL)
+    url.searchParams.set('address', address)
+    url.searchParams.set('components', 'country:PH')
+    url.searchParams.set('region', 'ph')
+    url.searchParams.set('key', apiKey)
+
+    const response = await fetch(url)
+    const body: GoogleGeocodeResponse | null = await response.json().catch(() => null)
+    if (!response.ok || !body) {
+      throw new Error(`Google geocoding request failed (${response.status})`)
+    }
+
+    if (body.status === 'ZERO_RESULTS') return null
+    if (body.status !== 'OK') {
+      throw new Error(`Google geocoding failed: ${body.status} ${body.error_message ?? ''}`.trim())
+    }
+
+    const [result] = body.results
+    return {
+      latitude: result.geometry.location.lat,
+      longitude: result.geometry.location.lng,
+      precision: precisionOf(result),
+      barangay: componentOf(result, BARANGAY_TYPES),
+      city: componentOf(result, CITY_TYPES),
+      landmark: componentOf(result, LANDMARK_TYPES),
+    }
+  },
+}
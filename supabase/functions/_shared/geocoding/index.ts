@@ -0,0 +1,22 @@
+/**
+ * Geocoding provider selection
+ * Set GEOCODING_PROVIDER to `google` (default) or `fixture`.
+ */
+
+import { fixtureProvider } from './fixture.ts'
+import { googleProvider } from './google.ts'
+import type { GeocodingProvider } from './types.ts'
+
+export * from './types.ts'
+
+const PROVIDERS: Record<string, GeocodingProvider> = {
+  google: googleProvider,
+  fixture: fixtureProvider,
+}
+
+export function getGeocodingProvider(): GeocodingProvider {
+  const name = Deno.env.get('GEOCODING_PROVIDER') ?? 'google'
+  const provider = PROVIDERS[name]
+  if (!provider) throw new Error(`Unknown GEOCODING_PROVIDER "${name}"`)
+  return provider
+}
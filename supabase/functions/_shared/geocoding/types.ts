@@ -0,0 +1,28 @@
+/**
+ * Geocoding provider abstraction
+ * geocode-order talks to a GeocodingProvider instead of a specific service,
+ * so the live geocoder can be swapped for local fixtures by configuration.
+ */
+
+// How closely the coordinates pin down the address
+export type GeocodePrecision = 'exact' | 'approximate'
+
+export interface GeocodeResult {
+  latitude: number
+  longitude: number
+  precision: GeocodePrecision
+  barangay: string | null
+  city: string | null
+  // Nearby building or point of interest the rider can look out for
+  landmark: string | null
+}
+
+export interface GeocodingProvider {
+  readonly name: string
+
+  /**
+   * Resolve a free-text Philippine address. Returns null when nothing matches;
+   * throws when the service itself fails, so the order can be retried.
+   */
+  geocode(address: string): Promise<GeocodeResult | null>
+}
@@ -0,0 +1,76 @@
+/**
+ * Order status state machine
+ *
+ * The single definition of order statuses and the moves between them, shared
+ * by the edge functions and the rider app (re-exported from
+ * rider-app/constants/orderStatus.ts). The database enforces the same rules in
+ * supabase/migrations/20261019130000_order_status_state_machine.sql; keep the
+ * two in sync.
+ *
+ * Must stay free of Deno- and React Native-specific APIs.
+ */
+
+export const ORDER_STATUSES = [
+  'PENDING', // assigned, rider has not started
+  'EN_ROUTE', // rider is on the way
+  'ARRIVED', // rider is at the customer, awaiting payment
+  'PAYMENT_FAILED', // QR payment was rejected; rider can retry or take cash
+  'PAID', // QR payment confirmed by the gateway
+  'COMPLETED', // delivered with proof
+  'REFUNDED', // payment returned to the customer
+] as const
+
+export type OrderStatus = typeof ORDER_STATUSES[number]
+
+// Who is moving the order: the rider from the app, or a service-role function
+export type StatusActor = 'rider' | 'system'
+
+// Legal moves out of each status
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  PENDING: ['EN_ROUTE'],
+  EN_ROUTE: ['ARRIVED'],
+  ARRIVED: ['PAID', 'PAYMENT_FAILED', 'COMPLETED'],
+  PAYMENT_FAILED: ['PAID', 'COMPLETED'],
+  PAID: ['COMPLETED', 'REFUNDED'],
+  COMPLETED: ['REFUNDED'],
+  REFUNDED: [],
+}
+
+// Statuses only payment gateway events may set
+export const SYSTEM_ONLY_STATUSES: readonly OrderStatus[] = ['PAID', 'PAYMENT_FAILED', 'REFUNDED']
+
+// Statuses in which the rider is still waiting on the customer to pay
+export const AWAITING_PAYMENT_STATUSES: readonly OrderStatus[] = ['ARRIVED', 'PAYMENT_FAILED']
+
+// Statuses a refund can be applied to
+export const REFUNDABLE_STATUSES: readonly OrderStatus[] = ['PAID', 'COMPLETED']
+
+// Statuses with nothing left for the rider to do
+export const DONE_STATUSES: readonly OrderStatus[] = ['COMPLETED', 'REFUNDED']
+
+// Spellings found in older rows
+const STATUS_ALIASES: Record<string, OrderStatus> = {
+  ENROUTE: 'EN_ROUTE',
+  PAYMENT_PENDING: 'ARRIVED',
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * Map a stored status (any case, legacy aliases included) onto its canonical value
+ */
+export function normalizeOrderStatus(value: string | null | undefined): OrderStatus | null {
+  if (!value) return null
+  const upper = value.trim().toUpperCase()
+  return isOrderStatus(upper) ? upper : STATUS_ALIASES[upper] ?? null
+}
+
+/**
+ * Whether `actor` may move an order from `from` to `to`
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus, actor: StatusActor = 'system'): boolean {
+  if (!ORDER_STATUS_TRANSITIONS[from].includes(to)) return false
+  return actor === 'system' || !SYSTEM_ONLY_STATUSES.includes(to)
+}
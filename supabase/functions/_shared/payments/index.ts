@@ -0,0 +1,22 @@
+/**
+ * Payment provider selection
+ * Set PAYMENT_PROVIDER to `payrex` (default) or `mock`.
+ */
+
+import { mockProvider } from './mock.ts'
+import { payrexProvider } from './payrex.ts'
+import type { PaymentProvider } from './types.ts'
+
+export * from './types.ts'
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  payrex: payrexProvider,
+  mock: mockProvider,
+}
+
+export function getPaymentProvider(): PaymentProvider {
+  const name = Deno.env.get('PAYMENT_PROVIDER') ?? 'payrex'
+  const provider = PROVIDERS[name]
+  if (!provider) throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`)
+  return provider
+}
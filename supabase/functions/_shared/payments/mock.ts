@@ -0,0 +1,65 @@
+/**
+ * Deterministic local payment provider for offline end-to-end testing.
+ *
+ * Payments never leave the function: ids are derived from the request, the QR
+ * is a locally built QR Ph payload, and payments are "completed" by sending a
+ * PayRex-style signed event (see supabase/scripts/send-webhook-event.ts)
+ * signed with MOCK_WEBHOOK_SECRET.
+ */
+
+import { buildQrphPayload, referenceLabelForOrder } from '../qrph.ts'
+import { parsePayrexStyleWebhook } from './payrex.ts'
+import type { PaymentProvider } from './types.ts'
+
+const MOCK_ID_PREFIX = 'mock_pi_'
+
+async function deterministicId(...parts: string[]): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(parts.join(':')))
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+  return `${MOCK_ID_PREFIX}${hex.slice(0, 24)}`
+}
+
+export const mockProvider: PaymentProvider = {
+  name: 'mock',
+
+  isPaymentId(id): id is string {
+    return !!id && id.startsWith(MOCK_ID_PREFIX)
+  },
+
+  async createPayment({ orderId, amount, expiresAt }) {
+    const id = await deterministicId(orderId, amount.toFixed(2), expiresAt.toISOString())
+    console.log(`[mock] Created payment ${id} for order ${orderId}`)
+
+    return {
+      id,
+      status: 'pending',
+      qrPayload: buildQrphPayload({
+        merchant: {
+          name: 'GoSpire Mock',
+          city: 'Manila',
+          mcc: '5999',
+          acquirerId: 'MOCKPHM1XXX',
+          merchantId: 'MOCKMERCHANT',
+        },
+        amount,
+        referenceLabel: referenceLabelForOrder(orderId),
+      }),
+    }
+  },
+
+  cancelPayment(paymentId) {
+    console.log(`[mock] Cancelled payment ${paymentId}`)
+    return Promise.resolve()
+  },
+
+  // The mock keeps no state; a payment only completes when its webhook event arrives
+  getPaymentStatus() {
+    return Promise.resolve('pending')
+  },
+
+  parseWebhook(rawBody, headers) {
+    return parsePayrexStyleWebhook(rawBody, headers, Deno.env.get('MOCK_WEBHOOK_SECRET'))
+  },
+}
@@ -0,0 +1,89 @@
+import { assertEquals, assertRejects } from 'jsr:@std/assert@1'
+import { PAYREX_SIGNATURE_HEADER, signPayrexPayload, WebhookSignatureError } from '../payrexSignature.ts'
+import { parsePayrexStyleWebhook } from './payrex.ts'
+import { WebhookPayloadError } from './types.ts'
+
+const SECRET = 'whsk_test_secret'
+
+const SUCCEEDED = JSON.stringify({
+  id: 'evt_1',
+  type: 'payment_intent.succeeded',
+  livemode: false,
+  created_at: 1_760_000_000,
+  data: { object: { id: 'pi_1', metadata: { order_id: 'order-1' } } },
+})
+
+async function signedHeaders(body: string, options: { timestamp?: number; secret?: string } = {}) {
+  return new Headers({
+    [PAYREX_SIGNATURE_HEADER]: await signPayrexPayload(body, options.secret ?? SECRET, { timestamp: options.timestamp }),
+  })
+}
+
+Deno.test('parsePayrexStyleWebhook normalizes a correctly signed event', async () => {
+  const event = await parsePayrexStyleWebhook(SUCCEEDED, await signedHeaders(SUCCEEDED), SECRET)
+
+  assertEquals(event.id, 'evt_1')
+  assertEquals(event.kind, 'succeeded')
+  assertEquals(event.paymentId, 'pi_1')
+  assertEquals(event.orderId, 'order-1')
+  assertEquals(event.livemode, false)
+  assertEquals(event.createdAt, new Date(1_760_000_000 * 1000))
+})
+
+Deno.test('parsePayrexStyleWebhook maps a refund back to its payment intent', async () => {
+  const body = JSON.stringify({
+    id: 'evt_2',
+    type: 'refund.succeeded',
+    data: { object: { id: 're_1', payment_intent_id: 'pi_1' } },
+  })
+
+  const event = await parsePayrexStyleWebhook(body, await signedHeaders(body), SECRET)
+
+  assertEquals(event.kind, 'refunded')
+  assertEquals(event.paymentId, 'pi_1')
+  assertEquals(event.orderId, null)
+})
+
+Deno.test('parsePayrexStyleWebhook rejects a tampered body or stale delivery with 401', async () => {
+  const headers = await signedHeaders(SUCCEEDED)
+  const tampered = await assertRejects(
+    () => parsePayrexStyleWebhook(SUCCEEDED.replace('pi_1', 'pi_2'), headers, SECRET),
+    WebhookSignatureError,
+  )
+  assertEquals(tampered.status, 401)
+
+  const staleHeaders = await signedHeaders(SUCCEEDED, { timestamp: Math.floor(Date.now() / 1000) - 600 })
+  const stale = await assertRejects(() => parsePayrexStyleWebhook(SUCCEEDED, staleHeaders, SECRET), WebhookSignatureError)
+  assertEquals(stale.reason, 'timestamp_out_of_range')
+  assertEquals(stale.status, 401)
+})
+
+Deno.test('parsePayrexStyleWebhook rejects a missing or malformed header with 400', async () => {
+  const missing = await assertRejects(() => parsePayrexStyleWebhook(SUCCEEDED, new Headers(), SECRET), WebhookSignatureError)
+  assertEquals(missing.status, 400)
+
+  const malformedHeaders = new Headers({ [PAYREX_SIGNATURE_HEADER]: 't=now,te=abc' })
+  const malformed = await assertRejects(
+    () => parsePayrexStyleWebhook(SUCCEEDED, malformedHeaders, SECRET),
+    WebhookSignatureError,
+  )
+  assertEquals(malformed.status, 400)
+})
+
+Deno.test('parsePayrexStyleWebhook rejects a signed body that is not a PayRex event with 400', async () => {
+  for (const body of ['not json', JSON.stringify({ id: 'evt_3', type: 'payment_intent.succeeded' })]) {
+    const error = await assertRejects(
+      async () => parsePayrexStyleWebhook(body, await signedHeaders(body), SECRET),
+      WebhookPayloadError,
+    )
+    assertEquals(error.status, 400)
+  }
+})
+
+Deno.test('parsePayrexStyleWebhook refuses to run without a webhook secret', async () => {
+  await assertRejects(
+    async () => parsePayrexStyleWebhook(SUCCEEDED, await signedHeaders(SUCCEEDED), undefined),
+    Error,
+    'Webhook secret not configured',
+  )
+})
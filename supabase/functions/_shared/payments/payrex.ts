@@ -0,0 +1,165 @@
+/**
+ * PayRex payment provider
+ */
+
+import {
+  PAYREX_SIGNATURE_HEADER,
+  parseToleranceSeconds,
+  verifyPayrexSignature,
+} from '../payrexSignature.ts'
+import {
+  type PaymentEvent,
+  type PaymentEventKind,
+  type PaymentProvider,
+  type PaymentStatus,
+  WebhookPayloadError,
+} from './types.ts'
+
+// Override with the local simulator (supabase/scripts/payrex-simulator.ts) for offline testing
+const PAYREX_API_URL = Deno.env.get('PAYREX_API_URL') ?? 'https://api-sandbox.payrex.ph/api/v1' // check specific endpoint in PayRex docs
+
+// Replay window for webhook signatures; a bad value stops the function from starting
+const WEBHOOK_TOLERANCE_SECONDS = parseToleranceSeconds(Deno.env.get('PAYREX_WEBHOOK_TOLERANCE_SECONDS'))
+
+interface PayrexPaymentIntent {
+  id: string
+  status: string
+  next_action?: { qr_code?: { data?: string } }
+  payment_method_options?: { qrph?: { qr_string?: string } }
+  [key: string]: unknown
+}
+
+interface PayrexEventBody {
+  id: string
+  type: string
+  livemode?: boolean
+  created_at?: number
+  data: {
+    object: {
+      id: string
+      payment_intent_id?: string
+      metadata?: { order_id?: string }
+      [key: string]: unknown
+    }
+  }
+}
+
+const EVENT_KINDS: Record<string, PaymentEventKind> = {
+  'payment_intent.succeeded': 'succeeded',
+  'payment_intent.payment_failed': 'failed',
+  'payment_intent.expired': 'expired',
+  'payment_intent.canceled': 'canceled',
+  'refund.created': 'refunded',
+  'refund.succeeded': 'refunded',
+}
+
+function toPaymentStatus(status: string): PaymentStatus {
+  switch (status) {
+    case 'succeeded': return 'succeeded'
+    case 'canceled': return 'canceled'
+    default: return 'pending'
+  }
+}
+
+async function payrexRequest(path: string, init: { method: string; body?: unknown }): Promise<PayrexPaymentIntent> {
+  const response = await fetch(`${PAYREX_API_URL}${path}`, {
+    method: init.method,
+    headers: {
+      'Authorization': `Basic ${btoa(Deno.env.get('PAYREX_SECRET_KEY') + ':')}`, // Basic Auth often used
+      'Content-Type': 'application/json',
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+  })
+
+  const data = await response.json()
+  if (!response.ok) throw new Error(JSON.stringify(data))
+  return data
+}
+
+/**
+ * Extract the raw QR Ph (EMVCo) payload string from a payment intent.
+ * Note: Adjust path based on exact PayRex response structure.
+ */
+function qrPayloadOf(intent: PayrexPaymentIntent): string | undefined {
+  return intent.next_action?.qr_code?.data || intent.payment_method_options?.qrph?.qr_string
+}
+
+/**
+ * Verify and normalize a webhook delivery in PayRex's format.
+ * Shared with the mock provider, which signs its events the same way.
+ */
+export async function parsePayrexStyleWebhook(
+  rawBody: string,
+  headers: Headers,
+  secret: string | undefined
+): Promise<PaymentEvent> {
+  if (!secret) throw new Error('Webhook secret not configured')
+
+  await verifyPayrexSignature(rawBody, headers.get(PAYREX_SIGNATURE_HEADER), secret, {
+    toleranceSeconds: WEBHOOK_TOLERANCE_SECONDS,
+  })
+
+  let body: PayrexEventBody
+  try {
+    body = JSON.parse(rawBody)
+  } catch {
+    throw new WebhookPayloadError('Invalid JSON payload')
+  }
+
+  if (!body?.id || !body.type || !body.data?.object?.id) {
+    throw new WebhookPayloadError('Payload is not a PayRex event')
+  }
+
+  const object = body.data.object
+  return {
+    id: body.id,
+    type: body.type,
+    kind: EVENT_KINDS[body.type] ?? 'other',
+    // Refund events carry a refund object that points back at its intent
+    paymentId: object.payment_intent_id ?? object.id,
+    orderId: object.metadata?.order_id ?? null,
+    livemode: body.livemode ?? false,
+    createdAt: body.created_at ? new Date(body.created_at * 1000) : null,
+    raw: body,
+  }
+}
+
+export const payrexProvider: PaymentProvider = {
+  name: 'payrex',
+
+  isPaymentId(id): id is string {
+    return !!id && id.startsWith('pi_')
+  },
+
+  async createPayment({ orderId, amount }) {
+    const intent = await payrexRequest('/payment_intents', {
+      method: 'POST',
+      body: {
+        amount: Math.round(amount * 100), // Convert PHP to Centavos
+        currency: 'PHP',
+        description: `Order #${orderId}`,
+        payment_methods: ['qrph'],
+        metadata: { order_id: orderId } // CRITICAL: This links the webhook back to the order
+      },
+    })
+    console.log("PayRex Response:", intent)
+
+    const qrPayload = qrPayloadOf(intent)
+    if (!qrPayload) throw new Error(`Payment intent ${intent.id} has no QR payload`)
+
+    return { id: intent.id, status: toPaymentStatus(intent.status), qrPayload }
+  },
+
+  async cancelPayment(paymentId) {
+    await payrexRequest(`/payment_intents/${paymentId}/cancel`, { method: 'POST' })
+  },
+
+  async getPaymentStatus(paymentId) {
+    const intent = await payrexRequest(`/payment_intents/${paymentId}`, { method: 'GET' })
+    return toPaymentStatus(intent.status)
+  },
+
+  parseWebhook(rawBody, headers) {
+    return parsePayrexStyleWebhook(rawBody, headers, Deno.env.get('PAYREX_WEBHOOK_SECRET'))
+  },
+}
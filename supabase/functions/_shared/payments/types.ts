@@ -0,0 +1,63 @@
+/**
+ * Payment provider abstraction
+ * generate-qr and payrex-webhook talk to a PaymentProvider instead of a
+ * specific gateway, so gateways can be swapped (or mocked) by configuration.
+ */
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'canceled' | 'expired'
+
+export type PaymentEventKind = 'succeeded' | 'failed' | 'expired' | 'canceled' | 'refunded' | 'other'
+
+export interface CreatePaymentInput {
+  orderId: string
+  amount: number // PHP
+  expiresAt: Date
+}
+
+export interface ProviderPayment {
+  id: string
+  status: PaymentStatus
+  qrPayload: string // raw QR Ph payload, rendered on-device
+}
+
+/**
+ * A webhook event normalized across providers
+ */
+export interface PaymentEvent {
+  id: string
+  type: string // the provider's own event type, kept for the ledger
+  kind: PaymentEventKind
+  paymentId: string
+  orderId: string | null
+  livemode: boolean
+  createdAt: Date | null
+  raw: unknown
+}
+
+export interface PaymentProvider {
+  readonly name: string
+
+  /** Whether an id was issued by this provider (as opposed to a fallback id) */
+  isPaymentId(id: string | null | undefined): id is string
+
+  createPayment(input: CreatePaymentInput): Promise<ProviderPayment>
+  cancelPayment(paymentId: string): Promise<void>
+  getPaymentStatus(paymentId: string): Promise<PaymentStatus>
+
+  /**
+   * Authenticate and normalize a webhook delivery.
+   * Throws WebhookSignatureError or WebhookPayloadError for rejected requests.
+   */
+  parseWebhook(rawBody: string, headers: Headers): Promise<PaymentEvent>
+}
+
+export class WebhookPayloadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookPayloadError'
+  }
+
+  get status(): number {
+    return 400
+  }
+}
@@ -0,0 +1,81 @@
+import { assertEquals, assertRejects, assertThrows } from 'jsr:@std/assert@1'
+import {
+  DEFAULT_TOLERANCE_SECONDS,
+  parseToleranceSeconds,
+  signPayrexPayload,
+  verifyPayrexSignature,
+  WebhookSignatureError,
+} from './payrexSignature.ts'
+
+const SECRET = 'whsk_test_secret'
+const NOW = 1_760_000_000
+const PAYLOAD = '{"id":"evt_1","type":"payment_intent.succeeded"}'
+
+async function rejection(header: string | null, options: { payload?: string; now?: number } = {}) {
+  return await assertRejects(
+    () => verifyPayrexSignature(options.payload ?? PAYLOAD, header, SECRET, { now: options.now ?? NOW }),
+    WebhookSignatureError,
+  )
+}
+
+Deno.test('verifyPayrexSignature accepts a test or live signature for the payload', async () => {
+  await verifyPayrexSignature(PAYLOAD, await signPayrexPayload(PAYLOAD, SECRET, { timestamp: NOW }), SECRET, { now: NOW })
+  await verifyPayrexSignature(
+    PAYLOAD,
+    await signPayrexPayload(PAYLOAD, SECRET, { timestamp: NOW, mode: 'live' }),
+    SECRET,
+    { now: NOW },
+  )
+})
+
+Deno.test('verifyPayrexSignature rejects a tampered body or another secret with 401', async () => {
+  const header = await signPayrexPayload(PAYLOAD, SECRET, { timestamp: NOW })
+
+  const tampered = await rejection(header, { payload: PAYLOAD.replace('evt_1', 'evt_2') })
+  assertEquals(tampered.reason, 'signature_mismatch')
+  assertEquals(tampered.status, 401)
+
+  const otherSecret = await rejection(await signPayrexPayload(PAYLOAD, 'whsk_other', { timestamp: NOW }))
+  assertEquals(otherSecret.reason, 'signature_mismatch')
+})
+
+Deno.test('verifyPayrexSignature rejects a timestamp outside the tolerance window with 401', async () => {
+  const stale = await rejection(await signPayrexPayload(PAYLOAD, SECRET, { timestamp: NOW - DEFAULT_TOLERANCE_SECONDS - 1 }))
+  assertEquals(stale.reason, 'timestamp_out_of_range')
+  assertEquals(stale.status, 401)
+
+  const future = await rejection(await signPayrexPayload(PAYLOAD, SECRET, { timestamp: NOW + DEFAULT_TOLERANCE_SECONDS + 1 }))
+  assertEquals(future.reason, 'timestamp_out_of_range')
+
+  // On the edge of the window is still accepted
+  await verifyPayrexSignature(
+    PAYLOAD,
+    await signPayrexPayload(PAYLOAD, SECRET, { timestamp: NOW - DEFAULT_TOLERANCE_SECONDS }),
+    SECRET,
+    { now: NOW },
+  )
+})
+
+Deno.test('verifyPayrexSignature rejects a missing or malformed header with 400', async () => {
+  const missing = await rejection(null)
+  assertEquals(missing.reason, 'missing_header')
+  assertEquals(missing.status, 400)
+
+  const signature = (await signPayrexPayload(PAYLOAD, SECRET, { timestamp: NOW })).split(',')[1]
+  for (const header of ['garbage', `t=,${signature}`, `t=abc,${signature}`, `t=${NOW}.5,${signature}`, `t=${NOW},te=,li=`]) {
+    const malformed = await rejection(header)
+    assertEquals(malformed.reason, 'malformed_header', header)
+    assertEquals(malformed.status, 400)
+  }
+})
+
+Deno.test('parseToleranceSeconds defaults when unset and rejects anything but whole seconds', () => {
+  assertEquals(parseToleranceSeconds(undefined), DEFAULT_TOLERANCE_SECONDS)
+  assertEquals(parseToleranceSeconds(''), DEFAULT_TOLERANCE_SECONDS)
+  assertEquals(parseToleranceSeconds('600'), 600)
+  assertEquals(parseToleranceSeconds(' 0 '), 0)
+
+  for (const value of ['-1', 'abc', '5m', '1.5', 'Infinity', 'NaN', '1e3']) {
+    assertThrows(() => parseToleranceSeconds(value), Error, 'PAYREX_WEBHOOK_TOLERANCE_SECONDS', value)
+  }
+})
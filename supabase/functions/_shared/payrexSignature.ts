@@ -0,0 +1,159 @@
+/**
+ * PayRex webhook signature helpers
+ *
+ * PayRex signs every webhook delivery with a `Payrex-Signature` header of the form
+ *   t=<unix seconds>,te=<test signature>,li=<live signature>
+ * where each signature is the hex HMAC-SHA256 of `${t}.${rawBody}` keyed with the
+ * webhook secret. Only the signature for the current mode is populated.
+ */
+
+export const PAYREX_SIGNATURE_HEADER = 'Payrex-Signature'
+
+// Default replay window in seconds (configurable via PAYREX_WEBHOOK_TOLERANCE_SECONDS)
+export const DEFAULT_TOLERANCE_SECONDS = 300
+
+/**
+ * Read a replay window setting; unset or empty means the default.
+ * Throws on anything that isn't a whole number of seconds, so a typo fails at
+ * startup instead of quietly changing the window.
+ */
+export function parseToleranceSeconds(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') return DEFAULT_TOLERANCE_SECONDS
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`PAYREX_WEBHOOK_TOLERANCE_SECONDS must be a whole number of seconds, got "${value}"`)
+  }
+  return Number(value.trim())
+}
+
+export type SignatureMode = 'test' | 'live'
+
+export type SignatureErrorReason =
+  | 'missing_header'
+  | 'malformed_header'
+  | 'timestamp_out_of_range'
+  | 'signature_mismatch'
+
+export class WebhookSignatureError extends Error {
+  reason: SignatureErrorReason
+
+  constructor(reason: SignatureErrorReason, message: string) {
+    super(message)
+    this.name = 'WebhookSignatureError'
+    this.reason = reason
+  }
+
+  /**
+   * Malformed requests are the sender's fault (400); anything that parsed but
+   * failed verification is treated as unauthenticated (401).
+   */
+  get status(): number {
+    return this.reason === 'missing_header' || this.reason === 'malformed_header' ? 400 : 401
+  }
+}
+
+interface ParsedSignatureHeader {
+  timestamp: number
+  test?: string
+  live?: string
+}
+
+const encoder = new TextEncoder()
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Constant-time comparison so the signature can't be guessed byte by byte
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+function parseSignatureHeader(header: string): ParsedSignatureHeader {
+  const parts: Record<string, string> = {}
+  for (const part of header.split(',')) {
+    const [key, ...rest] = part.trim().split('=')
+    if (key && rest.length > 0) parts[key] = rest.join('=')
+  }
+
+  const timestamp = Number(parts.t)
+  if (!parts.t || !Number.isInteger(timestamp) || (!parts.te && !parts.li)) {
+    throw new WebhookSignatureError('malformed_header', 'Malformed Payrex-Signature header')
+  }
+
+  return { timestamp, test: parts.te || undefined, live: parts.li || undefined }
+}
+
+/**
+ * Compute the hex HMAC-SHA256 signature PayRex would send for a payload
+ */
+export async function computePayrexSignature(
+  payload: string,
+  secret: string,
+  timestamp: number
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payload}`))
+  return toHex(signature)
+}
+
+/**
+ * Build a Payrex-Signature header value for a payload.
+ * Used by local tooling to send correctly-signed fake events.
+ */
+export async function signPayrexPayload(
+  payload: string,
+  secret: string,
+  options: { timestamp?: number; mode?: SignatureMode } = {}
+): Promise<string> {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000)
+  const signature = await computePayrexSignature(payload, secret, timestamp)
+  return options.mode === 'live'
+    ? `t=${timestamp},te=,li=${signature}`
+    : `t=${timestamp},te=${signature},li=`
+}
+
+/**
+ * Verify a webhook payload against its Payrex-Signature header.
+ * Throws WebhookSignatureError when the header is missing, malformed, stale or wrong.
+ */
+export async function verifyPayrexSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  options: { toleranceSeconds?: number; now?: number } = {}
+): Promise<void> {
+  if (!header) {
+    throw new WebhookSignatureError('missing_header', 'Missing Payrex-Signature header')
+  }
+
+  const parsed = parseSignatureHeader(header)
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS
+  const now = options.now ?? Math.floor(Date.now() / 1000)
+
+  if (Math.abs(now - parsed.timestamp) > tolerance) {
+    throw new WebhookSignatureError(
+      'timestamp_out_of_range',
+      `Signature timestamp is outside the ${tolerance}s tolerance window`
+    )
+  }
+
+  const expected = await computePayrexSignature(payload, secret, parsed.timestamp)
+  const candidates = [parsed.test, parsed.live].filter((sig): sig is string => !!sig)
+
+  if (!candidates.some((sig) => timingSafeEqual(sig, expected))) {
+    throw new WebhookSignatureError('signature_mismatch', 'Webhook signature does not match')
+  }
+}
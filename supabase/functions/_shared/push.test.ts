@@ -0,0 +1,127 @@
+// Runs sendPushToRider against the local Expo push endpoint:
+//   deno test --allow-net --allow-env supabase/functions/_shared/push.test.ts
+
+import { assertEquals } from 'jsr:@std/assert@1'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { handleRequest } from '../../scripts/expo-push-mock.ts'
+
+interface ReceivedPush {
+  to: string
+  title?: string
+  body?: string
+  data?: Record<string, unknown>
+  ticket: { status: string }
+}
+
+// Stands in for the device_tokens queries sendPushToRider makes
+function fakeSupabase(tokens: string[], options: { loadError?: string, deleteError?: string } = {}) {
+  const deleted: string[][] = []
+  const client = {
+    from: (table: string) => {
+      assertEquals(table, 'device_tokens')
+      return {
+        select: () => ({
+          eq: async () => options.loadError
+            ? { data: null, error: { message: options.loadError } }
+            : { data: tokens.map(token => ({ token })), error: null },
+        }),
+        delete: () => ({
+          in: async (column: string, values: string[]) => {
+            assertEquals(column, 'token')
+            deleted.push(values)
+            return { error: options.deleteError ? { message: options.deleteError } : null }
+          },
+        }),
+      }
+    },
+  }
+  return { supabase: client as unknown as SupabaseClient, deleted }
+}
+
+Deno.test('sendPushToRider', async (t) => {
+  const server = Deno.serve({ port: 0, onListen: () => {} }, handleRequest)
+  const mockUrl = `http://localhost:${server.addr.port}`
+  // push.ts reads EXPO_PUSH_URL when it loads
+  Deno.env.set('EXPO_PUSH_URL', `${mockUrl}/--/api/v2/push/send`)
+  const { orderAssignedPush, paymentConfirmedPush, sendPushToRider } = await import('./push.ts')
+
+  const receivedPushes = async (): Promise<ReceivedPush[]> => {
+    const response = await fetch(`${mockUrl}/messages`)
+    return await response.json()
+  }
+  const clearPushes = async () => {
+    await (await fetch(`${mockUrl}/messages`, { method: 'DELETE' })).body?.cancel()
+  }
+
+  try {
+    await t.step('sends the message to every registered device', async () => {
+      await clearPushes()
+      const { supabase, deleted } = fakeSupabase(['ExponentPushToken[phone]', 'ExponentPushToken[tablet]'])
+      const message = orderAssignedPush({ id: 'order-1', customer_name: 'Juan', cod_amount: 150.5 })
+
+      const result = await sendPushToRider(supabase, 'rider-1', message)
+
+      assertEquals(result, { sent: 2, failed: 0, removed: 0 })
+      assertEquals(deleted, [])
+      const pushes = await receivedPushes()
+      assertEquals(pushes.map(push => push.to), ['ExponentPushToken[phone]', 'ExponentPushToken[tablet]'])
+      for (const push of pushes) {
+        assertEquals(push.title, '🆕 New Order Assigned!')
+        assertEquals(push.body, 'New order for delivery - ₱150.50')
+        assertEquals(push.data, { orderId: 'order-1', type: 'new_order' })
+        assertEquals(push.ticket.status, 'ok')
+      }
+    })
+
+    await t.step('removes tokens Expo reports as DeviceNotRegistered', async () => {
+      await clearPushes()
+      const { supabase, deleted } = fakeSupabase([
+        'ExponentPushToken[phone]',
+        'ExponentPushToken[unregistered-old-phone]',
+        'not-a-token',
+      ])
+
+      const result = await sendPushToRider(supabase, 'rider-1', paymentConfirmedPush({ id: 'order-2', customer_name: 'Maria' }))
+
+      assertEquals(result, { sent: 1, failed: 2, removed: 2 })
+      assertEquals(deleted, [['ExponentPushToken[unregistered-old-phone]', 'not-a-token']])
+      const pushes = await receivedPushes()
+      assertEquals(pushes.map(push => push.ticket.status), ['ok', 'error', 'error'])
+      assertEquals(pushes[0].data, { orderId: 'order-2', type: 'payment_confirmed' })
+    })
+
+    await t.step('keeps the count of removed tokens at zero when the delete fails', async () => {
+      const { supabase, deleted } = fakeSupabase(['ExponentPushToken[unregistered]'], { deleteError: 'permission denied' })
+
+      const result = await sendPushToRider(supabase, 'rider-1', paymentConfirmedPush({ id: 'order-3', customer_name: 'Ana' }))
+
+      assertEquals(result, { sent: 0, failed: 1, removed: 0 })
+      assertEquals(deleted, [['ExponentPushToken[unregistered]']])
+    })
+
+    await t.step('splits more than 100 devices into batches Expo accepts', async () => {
+      await clearPushes()
+      const tokens = Array.from({ length: 150 }, (_, i) => `ExponentPushToken[device-${i}]`)
+      const { supabase } = fakeSupabase(tokens)
+
+      const result = await sendPushToRider(supabase, 'rider-1', orderAssignedPush({ id: 'order-4', customer_name: 'Jose', cod_amount: 99 }))
+
+      assertEquals(result, { sent: 150, failed: 0, removed: 0 })
+      assertEquals((await receivedPushes()).length, 150)
+    })
+
+    await t.step('skips the request when the rider has no devices or they cannot be loaded', async () => {
+      await clearPushes()
+      const message = orderAssignedPush({ id: 'order-5', customer_name: 'Lito', cod_amount: 10 })
+
+      assertEquals(await sendPushToRider(fakeSupabase([]).supabase, 'rider-1', message), { sent: 0, failed: 0, removed: 0 })
+      assertEquals(
+        await sendPushToRider(fakeSupabase(['ExponentPushToken[phone]'], { loadError: 'timeout' }).supabase, 'rider-1', message),
+        { sent: 0, failed: 0, removed: 0 },
+      )
+      assertEquals(await receivedPushes(), [])
+    })
+  } finally {
+    await server.shutdown()
+  }
+})
@@ -0,0 +1,146 @@
+/**
+ * Expo push notifications
+ * Delivers a message to every device a rider has registered in device_tokens.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Override with a local mock (supabase/scripts/expo-push-mock.ts) for offline testing
+const EXPO_PUSH_URL = Deno.env.get('EXPO_PUSH_URL') ?? 'https://exp.host/--/api/v2/push/send'
+
+// Expo accepts at most 100 messages per request
+const MAX_BATCH_SIZE = 100
+
+// Mirrors NotificationData in rider-app/services/notificationService.ts
+export interface PushMessage {
+  title: string
+  body: string
+  data: {
+    orderId: string
+    type: 'new_order' | 'payment_confirmed'
+  }
+}
+
+export interface PushResult {
+  sent: number
+  failed: number
+  // Tokens Expo reported as no longer registered; removed from device_tokens
+  removed: number
+}
+
+interface ExpoPushTicket {
+  status: 'ok' | 'error'
+  id?: string
+  message?: string
+  details?: { error?: string }
+}
+
+interface PushOrder {
+  id: string
+  customer_name: string
+  cod_amount: number
+}
+
+export const orderAssignedPush = (order: PushOrder): PushMessage => ({
+  title: '🆕 New Order Assigned!',
+  body: `New order for delivery - ₱${Number(order.cod_amount).toFixed(2)}`,
+  data: { orderId: order.id, type: 'new_order' },
+})
+
+export const paymentConfirmedPush = (order: Pick<PushOrder, 'id' | 'customer_name'>): PushMessage => ({
+  title: '✅ Payment Confirmed!',
+  body: `${order.customer_name} has paid via QRPH`,
+  data: { orderId: order.id, type: 'payment_confirmed' },
+})
+
+async function postToExpo(messages: Record<string, unknown>[]): Promise<ExpoPushTicket[]> {
+  const accessToken = Deno.env.get('EXPO_ACCESS_TOKEN')
+  const response = await fetch(EXPO_PUSH_URL, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      ...(accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(messages),
+  })
+
+  const body = await response.json().catch(() => null)
+  if (!response.ok || !Array.isArray(body?.data)) {
+    throw new Error(`Expo push request failed (${response.status}): ${JSON.stringify(body)}`)
+  }
+  return body.data
+}
+
+/**
+ * Send a push to all of a rider's devices. Never throws: a failed push must
+ * not fail the payment or assignment that triggered it.
+ */
+export async function sendPushToRider(
+  supabase: SupabaseClient,
+  riderId: string,
+  message: PushMessage
+): Promise<PushResult> {
+  const result: PushResult = { sent: 0, failed: 0, removed: 0 }
+
+  const { data: devices, error } = await supabase
+    .from('device_tokens')
+    .select('token')
+    .eq('rider_id', riderId)
+
+  if (error) {
+    console.error(`Could not load device tokens for rider ${riderId}:`, error.message)
+    return result
+  }
+
+  const tokens = (devices ?? []).map((device: { token: string }) => device.token)
+  if (tokens.length === 0) {
+    console.log(`Rider ${riderId} has no registered devices, push skipped`)
+    return result
+  }
+
+  const staleTokens: string[] = []
+
+  for (let i = 0; i < tokens.length; i += MAX_BATCH_SIZE) {
+    const batch = tokens.slice(i, i + MAX_BATCH_SIZE)
+    try {
+      const tickets = await postToExpo(batch.map(to => ({
+        to,
+        title: message.title,
+        body: message.body,
+        data: message.data,
+        sound: 'default',
+        priority: 'high',
+        channelId: 'default',
+      })))
+
+      tickets.forEach((ticket, index) => {
+        if (ticket.status === 'ok') {
+          result.sent++
+          return
+        }
+        result.failed++
+        console.warn(`Push to ${batch[index]} failed:`, ticket.message)
+        if (ticket.details?.error === 'DeviceNotRegistered') staleTokens.push(batch[index])
+      })
+    } catch (err) {
+      result.failed += batch.length
+      console.error(err instanceof Error ? err.message : err)
+    }
+  }
+
+  if (staleTokens.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('device_tokens')
+      .delete()
+      .in('token', staleTokens)
+    if (deleteError) {
+      console.error('Could not remove stale device tokens:', deleteError.message)
+    } else {
+      result.removed = staleTokens.length
+    }
+  }
+
+  console.log(`Push "${message.title}" to rider ${riderId}: ${result.sent} sent, ${result.failed} failed`)
+  return result
+}
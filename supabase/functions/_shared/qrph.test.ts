@@ -0,0 +1,147 @@
+import { assertEquals, assertThrows } from 'jsr:@std/assert@1'
+import {
+  buildQrphPayload,
+  crc16,
+  decodeQrphPayload,
+  encodeTlv,
+  parseTlv,
+  QrphPayloadError,
+  referenceLabelForOrder,
+} from './qrph.ts'
+
+const MERCHANT = {
+  name: 'GOSPIRE LOGISTICS',
+  city: 'MAKATI',
+  mcc: '4215',
+  acquirerId: 'GXCHPHM2XXX',
+  merchantId: 'GSP0001',
+}
+
+// Reference payloads, assembled field by field outside this module
+const STATIC_PAYLOAD =
+  '000201010211' +
+  '28410011ph.ppmi.p2m0111GXCHPHM2XXX0307GSP0001' +
+  '52044215' +
+  '5303608' +
+  '5802PH' +
+  '5917GOSPIRE LOGISTICS' +
+  '6006MAKATI' +
+  '63044600'
+
+const DYNAMIC_PAYLOAD =
+  '000201010212' +
+  '28410011ph.ppmi.p2m0111GXCHPHM2XXX0307GSP0001' +
+  '52044215' +
+  '5303608' +
+  '5406150.50' +
+  '5802PH' +
+  '5917GOSPIRE LOGISTICS' +
+  '6006MAKATI' +
+  '624005259F2C41D07B3A4E6F8A1D2C3B40707RIDER01' +
+  '63044F60'
+
+Deno.test('crc16 matches the CRC-16/CCITT-FALSE check values', () => {
+  assertEquals(crc16('123456789'), '29B1')
+  assertEquals(crc16(''), 'FFFF')
+  assertEquals(crc16('A'), 'B915')
+  assertEquals(crc16('000201010211'), '0449')
+})
+
+Deno.test('buildQrphPayload encodes a static QR without an amount', () => {
+  assertEquals(buildQrphPayload({ merchant: MERCHANT }), STATIC_PAYLOAD)
+})
+
+Deno.test('buildQrphPayload encodes a dynamic QR with amount and labels', () => {
+  const payload = buildQrphPayload({
+    merchant: MERCHANT,
+    amount: 150.5,
+    referenceLabel: '9F2C41D07B3A4E6F8A1D2C3B4',
+    terminalLabel: 'RIDER01',
+  })
+  assertEquals(payload, DYNAMIC_PAYLOAD)
+})
+
+Deno.test('buildQrphPayload rejects fields EMVCo does not allow', () => {
+  assertThrows(() => buildQrphPayload({ merchant: { ...MERCHANT, name: '' } }), QrphPayloadError)
+  assertThrows(() => buildQrphPayload({ merchant: { ...MERCHANT, city: 'SAN JUAN DEL MONTE' } }), QrphPayloadError)
+  assertThrows(() => buildQrphPayload({ merchant: { ...MERCHANT, mcc: '42' } }), QrphPayloadError)
+  assertThrows(() => buildQrphPayload({ merchant: MERCHANT, amount: 0 }), QrphPayloadError)
+  assertThrows(() => buildQrphPayload({ merchant: MERCHANT, amount: 1e13 }), QrphPayloadError)
+  assertThrows(() => buildQrphPayload({ merchant: { ...MERCHANT, name: 'PAÑADERIA' } }), QrphPayloadError)
+})
+
+Deno.test('decodeQrphPayload reads back a static reference payload', () => {
+  const decoded = decodeQrphPayload(STATIC_PAYLOAD)
+  assertEquals(decoded.payloadFormat, '01')
+  assertEquals(decoded.dynamic, false)
+  assertEquals(decoded.merchantAccount, {
+    tag: '28',
+    guid: 'ph.ppmi.p2m',
+    acquirerId: 'GXCHPHM2XXX',
+    merchantId: 'GSP0001',
+  })
+  assertEquals(decoded.amount, undefined)
+  assertEquals(decoded.referenceLabel, undefined)
+  assertEquals(decoded.crc, '4600')
+})
+
+Deno.test('decodeQrphPayload reads back a dynamic reference payload', () => {
+  const decoded = decodeQrphPayload(DYNAMIC_PAYLOAD)
+  assertEquals(decoded.dynamic, true)
+  assertEquals(decoded.mcc, '4215')
+  assertEquals(decoded.currency, '608')
+  assertEquals(decoded.amount, 150.5)
+  assertEquals(decoded.country, 'PH')
+  assertEquals(decoded.merchantName, 'GOSPIRE LOGISTICS')
+  assertEquals(decoded.merchantCity, 'MAKATI')
+  assertEquals(decoded.referenceLabel, '9F2C41D07B3A4E6F8A1D2C3B4')
+  assertEquals(decoded.terminalLabel, 'RIDER01')
+  assertEquals(decoded.crc, '4F60')
+})
+
+Deno.test('decodeQrphPayload accepts a lowercase CRC', () => {
+  assertEquals(decodeQrphPayload(DYNAMIC_PAYLOAD.slice(0, -4) + '4f60').crc, '4F60')
+})
+
+Deno.test('decodeQrphPayload rejects a wrong checksum', () => {
+  assertThrows(
+    () => decodeQrphPayload(STATIC_PAYLOAD.slice(0, -4) + '0000'),
+    QrphPayloadError,
+    'CRC mismatch',
+  )
+  // Amount changed after the CRC was computed
+  assertThrows(
+    () => decodeQrphPayload(DYNAMIC_PAYLOAD.replace('5406150.50', '5406999.50')),
+    QrphPayloadError,
+    'CRC mismatch',
+  )
+})
+
+Deno.test('decodeQrphPayload requires the format indicator first and the CRC last', () => {
+  const withoutFormat = STATIC_PAYLOAD.slice('000201'.length, -4)
+  assertThrows(() => decodeQrphPayload(withoutFormat + crc16(withoutFormat)), QrphPayloadError, 'payload format')
+  assertThrows(() => decodeQrphPayload(STATIC_PAYLOAD.slice(0, -8)), QrphPayloadError, 'CRC field')
+})
+
+Deno.test('encodeTlv and parseTlv round-trip', () => {
+  const data = encodeTlv('00', '01') + encodeTlv('59', 'GOSPIRE') + encodeTlv('62', '')
+  assertEquals(data, '0002015907GOSPIRE6200')
+  assertEquals(parseTlv(data), [
+    { tag: '00', value: '01' },
+    { tag: '59', value: 'GOSPIRE' },
+    { tag: '62', value: '' },
+  ])
+})
+
+Deno.test('parseTlv rejects lengths that are not two digits', () => {
+  for (const data of ['00 201', '00+201', '002.01', '00-101', '00020', '0002011']) {
+    assertThrows(() => parseTlv(data), QrphPayloadError, 'Malformed TLV', data)
+  }
+})
+
+Deno.test('referenceLabelForOrder fits an order id into 25 characters', () => {
+  assertEquals(
+    referenceLabelForOrder('9f2c41d0-7b3a-4e6f-8a1d-2c3b4a5e6f70'),
+    '9F2C41D07B3A4E6F8A1D2C3B4',
+  )
+})
@@ -0,0 +1,258 @@
+/**
+ * QR Ph payload encoder/decoder
+ *
+ * QR Ph is the Philippine profile of the EMVCo merchant-presented QR spec.
+ * A payload is a flat string of TLV fields (2-digit tag, 2-digit length, value),
+ * with templates (merchant account info, additional data) nesting the same
+ * format, and a CRC16 checksum in tag 63 as the final field.
+ *
+ * Values are restricted to ASCII so that string length equals the encoded
+ * length EMVCo expects.
+ */
+
+export const TAG = {
+  PAYLOAD_FORMAT: '00',
+  POINT_OF_INITIATION: '01',
+  MERCHANT_ACCOUNT: '28',
+  MCC: '52',
+  CURRENCY: '53',
+  AMOUNT: '54',
+  COUNTRY: '58',
+  MERCHANT_NAME: '59',
+  MERCHANT_CITY: '60',
+  ADDITIONAL_DATA: '62',
+  CRC: '63',
+} as const
+
+// Sub-tags inside the merchant account information template
+export const MERCHANT_ACCOUNT_TAG = {
+  GUID: '00',
+  ACQUIRER_ID: '01',
+  MERCHANT_ID: '03',
+} as const
+
+// Sub-tags inside the additional data template (62)
+export const ADDITIONAL_DATA_TAG = {
+  REFERENCE_LABEL: '05',
+  TERMINAL_LABEL: '07',
+} as const
+
+export const QRPH_P2M_GUID = 'ph.ppmi.p2m'
+export const PHP_CURRENCY_CODE = '608'
+
+const POINT_OF_INITIATION_STATIC = '11'
+const POINT_OF_INITIATION_DYNAMIC = '12'
+
+// EMVCo field length limits
+const MAX_MERCHANT_NAME = 25
+const MAX_MERCHANT_CITY = 15
+const MAX_REFERENCE_LABEL = 25
+const MAX_AMOUNT = 13
+
+export class QrphPayloadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'QrphPayloadError'
+  }
+}
+
+export interface TlvField {
+  tag: string
+  value: string
+}
+
+export interface QrphMerchant {
+  name: string
+  city: string
+  mcc: string
+  acquirerId: string
+  merchantId: string
+}
+
+export interface QrphPayloadInput {
+  merchant: QrphMerchant
+  amount?: number
+  referenceLabel?: string
+  terminalLabel?: string
+}
+
+export interface DecodedQrph {
+  payloadFormat: string
+  dynamic: boolean
+  merchantAccount: {
+    tag: string
+    guid: string
+    acquirerId?: string
+    merchantId?: string
+  } | null
+  mcc: string
+  currency: string
+  amount?: number
+  country: string
+  merchantName: string
+  merchantCity: string
+  referenceLabel?: string
+  terminalLabel?: string
+  crc: string
+  fields: TlvField[]
+}
+
+/**
+ * CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF) as required by EMVCo, as 4 uppercase hex digits
+ */
+export function crc16(data: string): string {
+  let crc = 0xffff
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data.charCodeAt(i) << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1
+      crc &= 0xffff
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0')
+}
+
+export function encodeTlv(tag: string, value: string): string {
+  if (!/^\d{2}$/.test(tag)) throw new QrphPayloadError(`Invalid tag "${tag}"`)
+  if (!/^[\x20-\x7e]*$/.test(value)) throw new QrphPayloadError(`Tag ${tag} contains non-ASCII characters`)
+  if (value.length > 99) throw new QrphPayloadError(`Tag ${tag} value exceeds 99 characters`)
+  return `${tag}${String(value.length).padStart(2, '0')}${value}`
+}
+
+export function parseTlv(data: string): TlvField[] {
+  const fields: TlvField[] = []
+  let offset = 0
+  while (offset < data.length) {
+    const tag = data.slice(offset, offset + 2)
+    const lengthDigits = data.slice(offset + 2, offset + 4)
+    // Number() would also accept " 5", "+5" or "5."
+    const length = Number(lengthDigits)
+    if (!/^\d{2}$/.test(tag) || !/^\d{2}$/.test(lengthDigits) || offset + 4 + length > data.length) {
+      throw new QrphPayloadError(`Malformed TLV at position ${offset}`)
+    }
+    fields.push({ tag, value: data.slice(offset + 4, offset + 4 + length) })
+    offset += 4 + length
+  }
+  return fields
+}
+
+function requireLength(label: string, value: string, max: number) {
+  if (!value) throw new QrphPayloadError(`${label} is required`)
+  if (value.length > max) throw new QrphPayloadError(`${label} exceeds ${max} characters`)
+}
+
+/**
+ * Format a PHP amount the way EMVCo expects ("150", "150.5" -> "150.50")
+ */
+function formatAmount(amount: number): string {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new QrphPayloadError(`Invalid amount ${amount}`)
+  }
+  const formatted = amount.toFixed(2)
+  if (formatted.length > MAX_AMOUNT) throw new QrphPayloadError(`Amount ${amount} is too large`)
+  return formatted
+}
+
+/**
+ * Reference label for an order. Order ids are UUIDs, longer than the 25
+ * characters EMVCo allows, so the hyphens are dropped and the result truncated.
+ */
+export function referenceLabelForOrder(orderId: string): string {
+  return orderId.replace(/-/g, '').slice(0, MAX_REFERENCE_LABEL).toUpperCase()
+}
+
+/**
+ * Build a QR Ph merchant-presented payload. With an amount the QR is dynamic
+ * (single-use, amount fixed); without one it is static.
+ */
+export function buildQrphPayload(input: QrphPayloadInput): string {
+  const { merchant, amount, referenceLabel, terminalLabel } = input
+
+  requireLength('Merchant name', merchant.name, MAX_MERCHANT_NAME)
+  requireLength('Merchant city', merchant.city, MAX_MERCHANT_CITY)
+  if (!/^\d{4}$/.test(merchant.mcc)) throw new QrphPayloadError(`Invalid MCC "${merchant.mcc}"`)
+  if (referenceLabel) requireLength('Reference label', referenceLabel, MAX_REFERENCE_LABEL)
+
+  const merchantAccount =
+    encodeTlv(MERCHANT_ACCOUNT_TAG.GUID, QRPH_P2M_GUID) +
+    encodeTlv(MERCHANT_ACCOUNT_TAG.ACQUIRER_ID, merchant.acquirerId) +
+    encodeTlv(MERCHANT_ACCOUNT_TAG.MERCHANT_ID, merchant.merchantId)
+
+  const additionalData =
+    (referenceLabel ? encodeTlv(ADDITIONAL_DATA_TAG.REFERENCE_LABEL, referenceLabel) : '') +
+    (terminalLabel ? encodeTlv(ADDITIONAL_DATA_TAG.TERMINAL_LABEL, terminalLabel) : '')
+
+  const payload =
+    encodeTlv(TAG.PAYLOAD_FORMAT, '01') +
+    encodeTlv(TAG.POINT_OF_INITIATION, amount !== undefined ? POINT_OF_INITIATION_DYNAMIC : POINT_OF_INITIATION_STATIC) +
+    encodeTlv(TAG.MERCHANT_ACCOUNT, merchantAccount) +
+    encodeTlv(TAG.MCC, merchant.mcc) +
+    encodeTlv(TAG.CURRENCY, PHP_CURRENCY_CODE) +
+    (amount !== undefined ? encodeTlv(TAG.AMOUNT, formatAmount(amount)) : '') +
+    encodeTlv(TAG.COUNTRY, 'PH') +
+    encodeTlv(TAG.MERCHANT_NAME, merchant.name) +
+    encodeTlv(TAG.MERCHANT_CITY, merchant.city) +
+    (additionalData ? encodeTlv(TAG.ADDITIONAL_DATA, additionalData) : '') +
+    `${TAG.CRC}04`
+
+  return payload + crc16(payload)
+}
+
+/**
+ * Decode and validate a merchant-presented QR payload.
+ * Throws QrphPayloadError if the structure or checksum is invalid.
+ */
+export function decodeQrphPayload(payload: string): DecodedQrph {
+  const fields = parseTlv(payload)
+  const last = fields[fields.length - 1]
+
+  if (fields[0]?.tag !== TAG.PAYLOAD_FORMAT) {
+    throw new QrphPayloadError('Payload must start with the payload format indicator')
+  }
+  if (!last || last.tag !== TAG.CRC || last.value.length !== 4) {
+    throw new QrphPayloadError('Payload must end with a CRC field')
+  }
+
+  const expectedCrc = crc16(payload.slice(0, payload.length - 4))
+  if (last.value.toUpperCase() !== expectedCrc) {
+    throw new QrphPayloadError(`CRC mismatch: expected ${expectedCrc}, got ${last.value}`)
+  }
+
+  const get = (tag: string) => fields.find((field) => field.tag === tag)?.value
+
+  // Merchant account information may sit in any template from 26 to 51
+  const accountField = fields.find((field) => Number(field.tag) >= 26 && Number(field.tag) <= 51)
+  let merchantAccount: DecodedQrph['merchantAccount'] = null
+  if (accountField) {
+    const sub = parseTlv(accountField.value)
+    const getSub = (tag: string) => sub.find((field) => field.tag === tag)?.value
+    merchantAccount = {
+      tag: accountField.tag,
+      guid: getSub(MERCHANT_ACCOUNT_TAG.GUID) ?? '',
+      acquirerId: getSub(MERCHANT_ACCOUNT_TAG.ACQUIRER_ID),
+      merchantId: getSub(MERCHANT_ACCOUNT_TAG.MERCHANT_ID),
+    }
+  }
+
+  const additional = get(TAG.ADDITIONAL_DATA)
+  const additionalFields = additional ? parseTlv(additional) : []
+  const getAdditional = (tag: string) => additionalFields.find((field) => field.tag === tag)?.value
+
+  const amount = get(TAG.AMOUNT)
+
+  return {
+    payloadFormat: get(TAG.PAYLOAD_FORMAT) ?? '',
+    dynamic: get(TAG.POINT_OF_INITIATION) === POINT_OF_INITIATION_DYNAMIC,
+    merchantAccount,
+    mcc: get(TAG.MCC) ?? '',
+    currency: get(TAG.CURRENCY) ?? '',
+    amount: amount !== undefined ? Number(amount) : undefined,
+    country: get(TAG.COUNTRY) ?? '',
+    merchantName: get(TAG.MERCHANT_NAME) ?? '',
+    merchantCity: get(TAG.MERCHANT_CITY) ?? '',
+    referenceLabel: getAdditional(ADDITIONAL_DATA_TAG.REFERENCE_LABEL),
+    terminalLabel: getAdditional(ADDITIONAL_DATA_TAG.TERMINAL_LABEL),
+    crc: last.value.toUpperCase(),
+    fields,
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Service-role Supabase client for edge functions.
+ * Bypasses RLS, so callers must do their own authorization checks.
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export function createAdminClient() {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+}
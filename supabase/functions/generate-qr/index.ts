@@ -1,10 +1,8 @@
-// Ambient Deno declarations for Supabase Edge Functions
-declare const Deno: {
-  serve: (handler: (req: Request) => Response | Promise<Response>) => void;
-  env: {
-    get: (key: string) => string | undefined;
-  };
-};
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+import { type QrphMerchant, buildQrphPayload, referenceLabelForOrder } from '../_shared/qrph.ts'
+import { OrderValidationError, type PayableOrder, type QrAction, loadPayableOrder } from './validateOrder.ts'
+import { type PaymentProvider, type PaymentStatus, getPaymentProvider } from '../_shared/payments/index.ts'
 
 // CORS headers to allow your mobile app to call this
 const corsHeaders = {
@@ -12,103 +10,253 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// QR expiry time in minutes (configurable)
+const QR_EXPIRY_MINUTES = 5;
+
+// A stored QR is only reused if the customer still has this long to scan it
+const REUSE_MIN_REMAINING_SECONDS = 30;
+
+// Merchant details encoded into fallback QR Ph payloads
+const fallbackMerchant = (): QrphMerchant => ({
+  name: Deno.env.get('QRPH_MERCHANT_NAME') ?? 'GoSpire',
+  city: Deno.env.get('QRPH_MERCHANT_CITY') ?? 'Manila',
+  mcc: Deno.env.get('QRPH_MERCHANT_MCC') ?? '5999',
+  acquirerId: Deno.env.get('QRPH_ACQUIRER_ID') ?? 'PAPHPHM1XXX',
+  merchantId: Deno.env.get('QRPH_MERCHANT_ID') ?? 'GOSPIRETEST',
+});
+
+// The raw QR payload is returned and rendered on the device; no image host is involved
+interface QrResult {
+  qr_payload: string;
+  payrex_id: string;
+  generated_at: string;
+  expires_at: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const qrResponse = (qr: QrResult, extra: Record<string, unknown> = {}) =>
+  jsonResponse({
+    ...qr,
+    expires_in_seconds: Math.max(0, Math.floor((new Date(qr.expires_at).getTime() - Date.now()) / 1000)),
+    ...extra,
+  });
+
+/**
+ * The QR currently stored on the order, if it is still worth handing out.
+ * Only payments issued by the gateway are reused, never a fallback QR.
+ */
+function liveQrOf(provider: PaymentProvider, order: PayableOrder): QrResult | null {
+  if (!provider.isPaymentId(order.payrex_payment_intent_id) || !order.qr_ph || !order.qr_expires_at) return null;
+
+  const secondsLeft = (new Date(order.qr_expires_at).getTime() - Date.now()) / 1000;
+  if (secondsLeft < REUSE_MIN_REMAINING_SECONDS) return null;
+
+  return {
+    qr_payload: order.qr_ph,
+    payrex_id: order.payrex_payment_intent_id,
+    generated_at: order.qr_generated_at ?? new Date().toISOString(),
+    expires_at: order.qr_expires_at,
+  };
+}
+
+// The previous payment can't be confirmed retired, so a new QR could make two payable
+class PreviousPaymentError extends Error {
+  constructor(paymentId: string, detail: string) {
+    super(`Previous payment ${paymentId} could not be cancelled (${detail})`);
+    this.name = 'PreviousPaymentError';
+  }
+}
+
+/**
+ * Cancel the order's previous payment so only one QR is payable at a time.
+ * Returns false if the previous payment turned out to be paid already, and
+ * throws PreviousPaymentError if it may still be payable.
+ */
+async function retirePreviousPayment(provider: PaymentProvider, order: PayableOrder): Promise<boolean> {
+  const previousId = order.payrex_payment_intent_id;
+  if (!provider.isPaymentId(previousId)) return true;
+
+  try {
+    await provider.cancelPayment(previousId);
+    console.log(`Cancelled previous payment ${previousId}`);
+    return true;
+  } catch (error) {
+    // Cancelling fails for payments that already reached a final state; find out which one
+    console.warn(`Could not cancel payment ${previousId}:`, error);
+  }
+
+  let status: PaymentStatus;
+  try {
+    status = await provider.getPaymentStatus(previousId);
+  } catch (error) {
+    throw new PreviousPaymentError(previousId, error instanceof Error ? error.message : String(error));
+  }
+
+  if (status === 'succeeded') return false;
+  if (status === 'pending') throw new PreviousPaymentError(previousId, 'still pending');
+  return true;
+}
+
+/**
+ * Store the issued QR on the order so later calls can find and reuse it.
+ * Returns false if the order could not be updated.
+ */
+async function saveQr(orderId: string, qr: QrResult): Promise<boolean> {
+  const { error } = await createAdminClient()
+    .from('orders')
+    .update({
+      qr_ph: qr.qr_payload,
+      qr_generated_at: qr.generated_at,
+      qr_expires_at: qr.expires_at,
+      payrex_payment_intent_id: qr.payrex_id,
+    })
+    .eq('id', orderId);
+
+  if (error) {
+    console.error('Could not save QR metadata:', error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Retire the order's QR before the rider takes cash, so a late scan can't
+ * charge the customer twice
+ */
+async function cancelQr(provider: PaymentProvider, order: PayableOrder): Promise<Response> {
+  try {
+    if (!(await retirePreviousPayment(provider, order))) {
+      return jsonResponse({ error: 'This order has already been paid', code: 'already_paid' }, 409);
+    }
+  } catch (error) {
+    console.error('Could not cancel payment:', error);
+    return jsonResponse({ error: 'Payment provider unavailable, please try again', code: 'provider_unavailable' }, 502);
+  }
+
+  if (order.payrex_payment_intent_id) {
+    const { error } = await createAdminClient()
+      .from('orders')
+      .update({
+        qr_ph: null,
+        qr_generated_at: null,
+        qr_expires_at: null,
+        payrex_payment_intent_id: null,
+      })
+      .eq('id', order.id)
+      .eq('payrex_payment_intent_id', order.payrex_payment_intent_id);
+
+    if (error) {
+      console.error('Could not clear QR metadata:', error.message);
+      return jsonResponse({ error: 'Could not cancel the QR, please try again' }, 500);
+    }
+    console.log(`Cancelled QR ${order.payrex_payment_intent_id} for order ${order.id}`);
+  }
+
+  return jsonResponse({ cancelled: true });
+}
+
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight request
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
-  // QR expiry time in minutes (configurable)
-  const QR_EXPIRY_MINUTES = 5;
+  // Authenticate the rider and load the order; the billed amount comes from the database
+  let order: PayableOrder;
+  let action: QrAction;
+  try {
+    ({ order, action } = await loadPayableOrder(req));
+  } catch (error) {
+    if (error instanceof OrderValidationError) {
+      console.warn(`Rejected generate-qr request (${error.code}):`, error.message);
+      return jsonResponse({ error: error.message, code: error.code }, error.status);
+    }
+    console.error('Order lookup error:', error);
+    return jsonResponse({ error: 'Could not load order' }, 500);
+  }
+
+  const orderId = order.id;
+  const amount = order.cod_amount;
 
+  let provider: PaymentProvider;
   try {
-    const { orderId, amount } = await req.json()
-    const expiresAt = new Date(Date.now() + QR_EXPIRY_MINUTES * 60 * 1000);
-    const generatedAt = new Date();
-
-    // 1. Create Payment Intent with PayRex
-    const response = await fetch('https://api-sandbox.payrex.ph/api/v1/payment_intents', { // check specific endpoint in PayRex docs
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${btoa(Deno.env.get('PAYREX_SECRET_KEY') + ':')}`, // Basic Auth often used
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        amount: amount * 100, // Convert PHP to Centavos
-        currency: 'PHP',
-        description: `Order #${orderId}`,
-        payment_methods: ['qrph'],
-        metadata: { order_id: orderId } // CRITICAL: This links the webhook back to the order
-      }),
-    })
+    provider = getPaymentProvider();
+  } catch (error) {
+    console.error('Payment provider error:', error);
+    return jsonResponse({ error: 'Payments are not configured' }, 500);
+  }
 
-    const data = await response.json()
-    console.log("PayRex Response:", data)
+  if (action === 'cancel') return cancelQr(provider, order);
 
-    if (!response.ok) throw new Error(JSON.stringify(data))
+  // 1. Hand back the QR already issued for this order while it is still payable
+  const liveQr = liveQrOf(provider, order);
+  if (liveQr) {
+    console.log(`Reusing payment intent ${liveQr.payrex_id} for order ${orderId}`);
+    return qrResponse(liveQr, { reused: true });
+  }
 
-    // 2. Extract QR Code URL
-    // Note: Adjust path based on exact PayRex response structure. 
-    // Often it is data.next_action.qr_code.image_url_png or similar.
-    // For now we assume standard structure:
-    const qrUrl = data.next_action?.qr_code?.image_url_png || data.payment_method_options?.qrph?.qr_code_url;
+  const expiresAt = new Date(Date.now() + QR_EXPIRY_MINUTES * 60 * 1000);
+  const generatedAt = new Date();
 
-    return new Response(
-      JSON.stringify({ 
-        qr_url: qrUrl, 
-        payrex_id: data.id,
-        generated_at: generatedAt.toISOString(),
-        expires_at: expiresAt.toISOString(),
-        expires_in_seconds: QR_EXPIRY_MINUTES * 60
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
-    )
-  } catch (error) {
-    console.error('PayRex API Error:', error);
-    
-    // Fallback: Generate QR using free service when PayRex is unavailable
-    // Parse request body again for fallback
-    let orderId: string;
-    let amount: number;
-    
-    try {
-      const body = await req.clone().json();
-      orderId = body.orderId;
-      amount = body.amount;
-    } catch {
-      return new Response(JSON.stringify({ error: 'Invalid request body' }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 400,
-      });
+  // 2. Retire the previous payment before issuing a new one
+  try {
+    if (!(await retirePreviousPayment(provider, order))) {
+      return jsonResponse({ error: 'This order has already been paid', code: 'already_paid' }, 409);
     }
-    
-    const expiresAt = new Date(Date.now() + QR_EXPIRY_MINUTES * 60 * 1000);
-    const generatedAt = new Date();
-    
-    const fallbackData = {
-      merchant: 'Rider App',
-      order_id: orderId,
-      amount: amount,
-      currency: 'PHP',
-      payment_type: 'QRPH'
+  } catch (error) {
+    console.error('Could not retire previous payment:', error);
+    return jsonResponse({ error: 'Payment provider unavailable, please try again', code: 'provider_unavailable' }, 502);
+  }
+
+  // 3. Create the payment with the configured gateway
+  let qr: QrResult;
+  let fallback = false;
+  try {
+    const payment = await provider.createPayment({ orderId, amount, expiresAt });
+    qr = {
+      qr_payload: payment.qrPayload,
+      payrex_id: payment.id,
+      generated_at: generatedAt.toISOString(),
+      expires_at: expiresAt.toISOString(),
     };
-    
-    const fallbackQrUrl = `https://api.qrserver.com/v1/create-qr-code/?size=250x250&data=${encodeURIComponent(JSON.stringify(fallbackData))}`;
-    
-    return new Response(
-      JSON.stringify({ 
-        qr_url: fallbackQrUrl,
-        payrex_id: `fallback_${orderId}_${Date.now()}`,
-        generated_at: generatedAt.toISOString(),
-        expires_at: expiresAt.toISOString(),
-        expires_in_seconds: QR_EXPIRY_MINUTES * 60,
-        test_mode: true,
-        message: 'PayRex API unavailable. Using fallback QR generation.'
+  } catch (error) {
+    console.error('Payment provider error:', error);
+
+    // Fallback: Encode a structurally valid QR Ph payload ourselves when the gateway is unavailable.
+    // Safe only because the previous payment was retired above.
+    fallback = true;
+    qr = {
+      qr_payload: buildQrphPayload({
+        merchant: fallbackMerchant(),
+        amount,
+        referenceLabel: referenceLabelForOrder(orderId),
       }),
-      { 
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 200
-      }
-    );
+      payrex_id: `fallback_${orderId}_${Date.now()}`,
+      generated_at: generatedAt.toISOString(),
+      expires_at: expiresAt.toISOString(),
+    };
+  }
+
+  // 4. An unsaved payment would be forgotten and a second one issued next time, so undo it
+  if (!(await saveQr(orderId, qr))) {
+    if (provider.isPaymentId(qr.payrex_id)) {
+      await provider.cancelPayment(qr.payrex_id).catch((error) => {
+        console.error(`Could not cancel unsaved payment ${qr.payrex_id}:`, error);
+      });
+    }
+    return jsonResponse({ error: 'Could not save the QR, please try again' }, 500);
+  }
+
+  if (fallback) {
+    return qrResponse(qr, {
+      test_mode: true,
+      message: 'Payment provider unavailable. Using fallback QR generation.'
+    });
   }
-})
\ No newline at end of file
+  return qrResponse(qr);
+})
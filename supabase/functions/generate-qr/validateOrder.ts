@@ -0,0 +1,132 @@
+/**
+ * Order validation for generate-qr
+ * Authenticates the calling rider and loads the order server-side, so the
+ * amount billed always comes from the database and never from the client.
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AWAITING_PAYMENT_STATUSES, normalizeOrderStatus } from '../_shared/orderStatus.ts'
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+
+export interface PayableOrder {
+  id: string
+  rider_id: string
+  status: string
+  cod_amount: number
+  qr_ph: string | null
+  qr_generated_at: string | null
+  qr_expires_at: string | null
+  payrex_payment_intent_id: string | null
+}
+
+// `issue` hands out a payable QR, `cancel` retires it before the rider takes cash
+export type QrAction = 'issue' | 'cancel'
+
+export interface QrRequest {
+  order: PayableOrder
+  action: QrAction
+}
+
+export type OrderValidationCode =
+  | 'unauthenticated'
+  | 'invalid_request'
+  | 'order_not_found'
+  | 'forbidden'
+  | 'invalid_status'
+  | 'amount_mismatch'
+
+const STATUS_BY_CODE: Record<OrderValidationCode, number> = {
+  unauthenticated: 401,
+  invalid_request: 400,
+  order_not_found: 404,
+  forbidden: 403,
+  invalid_status: 409,
+  amount_mismatch: 400,
+}
+
+export class OrderValidationError extends Error {
+  code: OrderValidationCode
+
+  constructor(code: OrderValidationCode, message: string) {
+    super(message)
+    this.name = 'OrderValidationError'
+    this.code = code
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code]
+  }
+}
+
+/**
+ * Authenticate the caller's JWT and return the order they are allowed to bill.
+ * A client-supplied `amount` is optional; if present it must match `cod_amount`.
+ */
+export async function loadPayableOrder(req: Request): Promise<QrRequest> {
+  // 1. Authenticate the rider from their JWT
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    throw new OrderValidationError('unauthenticated', 'Missing Authorization header')
+  }
+
+  const userClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: authHeader } },
+  })
+  const { data: { user }, error: authError } = await userClient.auth.getUser()
+  if (authError || !user) {
+    throw new OrderValidationError('unauthenticated', 'Invalid or expired session')
+  }
+
+  // 2. Parse the request
+  let body: { orderId?: unknown; amount?: unknown; action?: unknown }
+  try {
+    body = await req.json()
+  } catch {
+    throw new OrderValidationError('invalid_request', 'Invalid request body')
+  }
+
+  if (typeof body.orderId !== 'string' || !body.orderId) {
+    throw new OrderValidationError('invalid_request', 'orderId is required')
+  }
+
+  const action = body.action ?? 'issue'
+  if (action !== 'issue' && action !== 'cancel') {
+    throw new OrderValidationError('invalid_request', `Unknown action ${body.action}`)
+  }
+
+  // 3. Load the order with the service role and check ownership ourselves
+  const { data: order, error: orderError } = await createAdminClient()
+    .from('orders')
+    .select('id, rider_id, status, cod_amount, qr_ph, qr_generated_at, qr_expires_at, payrex_payment_intent_id')
+    .eq('id', body.orderId)
+    .maybeSingle()
+
+  if (orderError) throw orderError
+  if (!order) {
+    throw new OrderValidationError('order_not_found', `Order ${body.orderId} not found`)
+  }
+  if (order.rider_id !== user.id) {
+    throw new OrderValidationError('forbidden', 'Order is not assigned to this rider')
+  }
+  // A QR may be issued while the rider awaits payment (a failed payment can be retried)
+  const status = normalizeOrderStatus(order.status)
+  if (!status || !AWAITING_PAYMENT_STATUSES.includes(status)) {
+    throw new OrderValidationError(
+      'invalid_status',
+      `Cannot generate a QR for an order in ${order.status} status`
+    )
+  }
+
+  // 4. Reject tampered amounts instead of silently billing a different figure
+  if (body.amount !== undefined && body.amount !== null) {
+    const clientAmount = Number(body.amount)
+    if (!Number.isFinite(clientAmount) || Math.round(clientAmount * 100) !== Math.round(order.cod_amount * 100)) {
+      throw new OrderValidationError(
+        'amount_mismatch',
+        `Amount ${body.amount} does not match the order amount`
+      )
+    }
+  }
+
+  return { order: order as PayableOrder, action }
+}
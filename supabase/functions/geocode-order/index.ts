@@ -0,0 +1,146 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { type GeocodingProvider, getGeocodingProvider } from '../_shared/geocoding/index.ts'
+import { timingSafeEqual } from '../_shared/payrexSignature.ts'
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+
+// Shared with the orders_geocode_address trigger through Vault
+const GEOCODE_SECRET_HEADER = 'X-Geocode-Secret'
+
+// Orders picked up per backfill call
+const BACKFILL_LIMIT = 50
+
+type GeocodeStatus = 'geocoded' | 'approximate' | 'not_found' | 'failed' | 'skipped'
+
+// { order_id } from the trigger, or { pending: true } to retry everything not yet geocoded
+interface GeocodeRequest {
+  order_id?: string
+  pending?: boolean
+}
+
+interface GeocodableOrder {
+  id: string
+  address: string
+  destination_latitude: number | null
+  destination_longitude: number | null
+  barangay: string | null
+  city: string | null
+  landmark: string | null
+}
+
+const ORDER_COLUMNS = 'id, address, destination_latitude, destination_longitude, barangay, city, landmark'
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+async function geocodeOrder(
+  supabase: SupabaseClient,
+  provider: GeocodingProvider,
+  order: GeocodableOrder
+): Promise<GeocodeStatus> {
+  let update: Record<string, unknown>
+  let status: GeocodeStatus
+
+  try {
+    const result = await provider.geocode(order.address)
+    if (!result) {
+      status = 'not_found'
+      update = { geocode_status: status }
+    } else {
+      status = result.precision === 'exact' ? 'geocoded' : 'approximate'
+      // Values dispatch entered by hand win over the geocoder's
+      update = {
+        geocode_status: status,
+        barangay: order.barangay ?? result.barangay,
+        city: order.city ?? result.city,
+        landmark: order.landmark ?? result.landmark,
+      }
+      // An approximate point (e.g. the middle of a city) would put the arrival geofence in the wrong place
+      if (result.precision === 'exact' && order.destination_latitude == null && order.destination_longitude == null) {
+        update.destination_latitude = result.latitude
+        update.destination_longitude = result.longitude
+      }
+    }
+  } catch (err) {
+    console.error(`Geocoding order ${order.id} failed:`, err instanceof Error ? err.message : err)
+    status = 'failed'
+    update = { geocode_status: status }
+  }
+
+  // Skip the write if the address changed while we were geocoding; that change queued its own lookup
+  const { data, error } = await supabase
+    .from('orders')
+    .update({ ...update, geocoded_at: new Date().toISOString() })
+    .eq('id', order.id)
+    .eq('address', order.address)
+    .select('id')
+
+  if (error) {
+    console.error(`Could not save geocode for order ${order.id}:`, error.message)
+    return 'failed'
+  }
+  if (!data?.length) return 'skipped'
+
+  console.log(`Order ${order.id} geocoded with ${provider.name}: ${status}`)
+  return status
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  // 1. Only the database trigger (and operators running a backfill) know the secret
+  const secret = Deno.env.get('GEOCODE_WEBHOOK_SECRET')
+  if (!secret) {
+    console.error('GEOCODE_WEBHOOK_SECRET is not configured')
+    return jsonResponse({ error: 'Geocoding is not configured' }, 500)
+  }
+  if (!timingSafeEqual(req.headers.get(GEOCODE_SECRET_HEADER) ?? '', secret)) {
+    return jsonResponse({ error: 'Invalid geocode secret' }, 401)
+  }
+
+  let payload: GeocodeRequest
+  try {
+    payload = await req.json()
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400)
+  }
+
+  if (typeof payload?.order_id !== 'string' && payload?.pending !== true) {
+    return jsonResponse({ error: 'Expected { order_id } or { pending: true }' }, 400)
+  }
+
+  let provider: GeocodingProvider
+  try {
+    provider = getGeocodingProvider()
+  } catch (err) {
+    return jsonResponse({ error: err instanceof Error ? err.message : String(err) }, 500)
+  }
+
+  // 2. Load the order(s) as they are now
+  const supabase = createAdminClient()
+  const query = supabase.from('orders').select(ORDER_COLUMNS)
+  const { data: orders, error } = payload.order_id
+    ? await query.eq('id', payload.order_id)
+    : await query.in('geocode_status', ['pending', 'failed']).order('created_at').limit(BACKFILL_LIMIT)
+
+  if (error) {
+    console.error('Error loading orders to geocode:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+  if (payload.order_id && orders.length === 0) {
+    return jsonResponse({ error: 'Order not found' }, 404)
+  }
+
+  // 3. Geocode one at a time to stay within the provider's rate limits
+  const results: { order_id: string; status: GeocodeStatus }[] = []
+  for (const order of orders as GeocodableOrder[]) {
+    results.push({ order_id: order.id, status: await geocodeOrder(supabase, provider, order) })
+  }
+
+  return jsonResponse({ provider: provider.name, results }, 200)
+})
@@ -0,0 +1,152 @@
+/**
+ * Payment event handlers
+ * Maps each payment lifecycle event onto the order it belongs to.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AWAITING_PAYMENT_STATUSES, REFUNDABLE_STATUSES } from '../_shared/orderStatus.ts'
+import type { PaymentEvent, PaymentEventKind } from '../_shared/payments/index.ts'
+import { paymentConfirmedPush, sendPushToRider } from '../_shared/push.ts'
+import type { EventOutcome } from './ledger.ts'
+
+type EventHandler = (supabase: SupabaseClient, event: PaymentEvent) => Promise<EventOutcome>
+
+/**
+ * Resolve the order an event refers to: from the intent metadata when present,
+ * otherwise by looking up the order that holds the payment intent.
+ */
+async function resolveOrderId(supabase: SupabaseClient, event: PaymentEvent): Promise<string | null> {
+  if (event.orderId) return event.orderId
+
+  const { data, error } = await supabase
+    .from('orders')
+    .select('id')
+    .or(`payrex_payment_intent_id.eq.${event.paymentId},payrex_id.eq.${event.paymentId}`)
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.id ?? null
+}
+
+/**
+ * Run an order update and report whether it matched any row
+ */
+async function updateOrder(
+  query: PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<EventOutcome> {
+  const { data, error } = await query
+  if (error) throw error
+  return data && data.length > 0 ? 'applied' : 'ignored'
+}
+
+const handlePaymentSucceeded: EventHandler = async (supabase, event) => {
+  const orderId = await resolveOrderId(supabase, event)
+  if (!orderId) return 'ignored'
+
+  console.log(`Payment confirmed for Order: ${orderId}`)
+
+  const { data, error } = await supabase
+    .from('orders')
+    .update({
+      status: 'PAID',
+      payment_method: 'QRPH',
+      payrex_id: event.paymentId
+    })
+    .eq('id', orderId)
+    // An order that was already settled (e.g. paid in cash) cannot become PAID
+    .in('status', AWAITING_PAYMENT_STATUSES)
+    .select('id, rider_id, customer_name')
+
+  if (error) throw error
+  const order = data?.[0]
+  if (!order) return 'ignored'
+
+  // Reach the rider even when the app is in the background
+  if (order.rider_id) {
+    await sendPushToRider(supabase, order.rider_id, paymentConfirmedPush(order))
+  }
+  return 'applied'
+}
+
+const handlePaymentFailed: EventHandler = async (supabase, event) => {
+  const orderId = await resolveOrderId(supabase, event)
+  if (!orderId) return 'ignored'
+
+  console.log(`Payment failed for Order: ${orderId}`)
+
+  // The failed QR is no longer payable; the rider can issue a new one or collect cash.
+  // A late failure for a replaced intent must not touch the newer, still payable QR.
+  return updateOrder(
+    supabase
+      .from('orders')
+      .update({
+        status: 'PAYMENT_FAILED',
+        qr_ph: null,
+        qr_expires_at: null,
+        payrex_payment_intent_id: null
+      })
+      .eq('id', orderId)
+      .eq('payrex_payment_intent_id', event.paymentId)
+      .in('status', AWAITING_PAYMENT_STATUSES)
+      .select('id')
+  )
+}
+
+const handleIntentInvalidated: EventHandler = async (supabase, event) => {
+  const orderId = await resolveOrderId(supabase, event)
+  if (!orderId) return 'ignored'
+
+  console.log(`QR invalidated (${event.type}) for Order: ${orderId}`)
+
+  // Only clear the QR if it is still the one on the order; a newer intent may have replaced it
+  return updateOrder(
+    supabase
+      .from('orders')
+      .update({
+        qr_ph: null,
+        qr_expires_at: null,
+        payrex_payment_intent_id: null
+      })
+      .eq('id', orderId)
+      .eq('payrex_payment_intent_id', event.paymentId)
+      .in('status', AWAITING_PAYMENT_STATUSES)
+      .select('id')
+  )
+}
+
+const handleRefunded: EventHandler = async (supabase, event) => {
+  const orderId = await resolveOrderId(supabase, event)
+  if (!orderId) return 'ignored'
+
+  console.log(`Payment refunded for Order: ${orderId}`)
+
+  return updateOrder(
+    supabase
+      .from('orders')
+      .update({ status: 'REFUNDED' })
+      .eq('id', orderId)
+      .in('status', REFUNDABLE_STATUSES)
+      .select('id')
+  )
+}
+
+const HANDLERS: Partial<Record<PaymentEventKind, EventHandler>> = {
+  succeeded: handlePaymentSucceeded,
+  failed: handlePaymentFailed,
+  expired: handleIntentInvalidated,
+  canceled: handleIntentInvalidated,
+  refunded: handleRefunded,
+}
+
+/**
+ * Apply an event to its order. Unknown event types are recorded but ignored.
+ */
+export async function applyEvent(supabase: SupabaseClient, event: PaymentEvent): Promise<EventOutcome> {
+  const handler = HANDLERS[event.kind]
+  if (!handler) {
+    console.log(`No handler for event type ${event.type}`)
+    return 'ignored'
+  }
+  return handler(supabase, event)
+}
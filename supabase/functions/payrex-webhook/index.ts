@@ -1,41 +1,70 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { WebhookSignatureError } from '../_shared/payrexSignature.ts'
+import { type PaymentEvent, WebhookPayloadError, getPaymentProvider } from '../_shared/payments/index.ts'
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+import { isSuperseded, markFailed, markProcessed, recordEvent } from './ledger.ts'
+import { applyEvent } from './events.ts'
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
 
 Deno.serve(async (req: Request) => {
+  // 1. Let the configured gateway authenticate and normalize the delivery before trusting anything in it
+  let providerName: string
+  let event: PaymentEvent
   try {
-    const event = await req.json()
-    console.log("Webhook received:", event.type)
-
-    // 1. Initialize Supabase Admin Client
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
-    // 2. Handle Successful Payment
-    if (event.type === 'payment_intent.succeeded') {
-      const paymentIntent = event.data.object
-      const orderId = paymentIntent.metadata.order_id
-
-      console.log(`Payment confirmed for Order: ${orderId}`)
-
-      // 3. Update Database
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          status: 'PAID', 
-          payment_method: 'QRPH',
-          payrex_id: paymentIntent.id 
-        })
-        .eq('id', orderId)
-
-      if (error) throw error
+    const provider = getPaymentProvider()
+    providerName = provider.name
+    event = await provider.parseWebhook(await req.text(), req.headers)
+  } catch (err) {
+    if (err instanceof WebhookSignatureError) {
+      console.warn(`Rejected webhook (${err.reason}):`, err.message)
+      return jsonResponse({ error: err.message, reason: err.reason }, err.status)
     }
+    if (err instanceof WebhookPayloadError) {
+      return jsonResponse({ error: err.message }, err.status)
+    }
+    console.error('Webhook configuration error:', err)
+    return jsonResponse({ error: err instanceof Error ? err.message : 'Unknown error' }, 500)
+  }
+
+  console.log(`Webhook received (${providerName}):`, event.type, event.id)
+
+  // 2. Initialize Supabase Admin Client
+  const supabase = createAdminClient()
+
+  try {
+    // 3. Record the event; re-deliveries of an already processed event are acknowledged as-is
+    const entry = await recordEvent(supabase, providerName, event)
+    if (entry.state === 'duplicate') {
+      console.log(`Duplicate event ${event.id} acknowledged without side effects`)
+      return jsonResponse({ received: true, duplicate: true }, 200)
+    }
+    if (entry.state === 'in_progress') {
+      // Not acknowledged, so the gateway delivers it again if that other delivery fails
+      console.log(`Event ${event.id} is being processed by another delivery`)
+      return jsonResponse({ error: 'Event is already being processed', in_progress: true }, 409)
+    }
+
+    // 4. Never let an older event overwrite state set by a newer one
+    if (await isSuperseded(supabase, event)) {
+      console.log(`Event ${event.id} is older than an applied event for ${event.paymentId}, skipping`)
+      await markProcessed(supabase, event.id, 'superseded')
+      return jsonResponse({ received: true, superseded: true }, 200)
+    }
+
+    const outcome = await applyEvent(supabase, event)
+    await markProcessed(supabase, event.id, outcome)
 
-    return new Response(JSON.stringify({ received: true }), { status: 200 })
+    return jsonResponse({ received: true }, 200)
   } catch (err) {
     console.error(err)
     const errorMessage = err instanceof Error ? err.message : 'Unknown error'
-    return new Response(JSON.stringify({ error: errorMessage }), { status: 400 })
+    await markFailed(supabase, event.id, errorMessage)
+    // 500 so the gateway retries; the ledger entry stays unprocessed until a delivery succeeds
+    return jsonResponse({ error: errorMessage }, 500)
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,91 @@
+/**
+ * Payment event ledger
+ * Records every gateway event in `payment_events` so duplicates and
+ * out-of-order deliveries can be acknowledged without side effects.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { PaymentEvent } from '../_shared/payments/index.ts'
+
+export type EventOutcome = 'applied' | 'ignored' | 'superseded'
+
+export type LedgerEntry =
+  | { state: 'new' }
+  | { state: 'retry' }
+  | { state: 'duplicate'; outcome: EventOutcome | null }
+  // Another delivery of the same event is being processed right now
+  | { state: 'in_progress' }
+
+// How long a delivery may work on an event before a re-delivery can take it over
+const PROCESSING_LEASE_SECONDS = 300
+
+/**
+ * Record an incoming event and claim it for processing, atomically (see
+ * claim_payment_event). Returns `duplicate` if it was already processed,
+ * `in_progress` if another delivery holds the claim, `retry` if an earlier
+ * delivery was recorded but failed, and `new` otherwise.
+ */
+export async function recordEvent(
+  supabase: SupabaseClient,
+  provider: string,
+  event: PaymentEvent
+): Promise<LedgerEntry> {
+  const { data, error } = await supabase
+    .rpc('claim_payment_event', {
+      p_id: event.id,
+      p_provider: provider,
+      p_type: event.type,
+      p_payment_intent_id: event.paymentId,
+      p_order_id: event.orderId,
+      p_livemode: event.livemode,
+      p_payload: event.raw,
+      p_event_created_at: event.createdAt?.toISOString() ?? null,
+      p_lease_seconds: PROCESSING_LEASE_SECONDS,
+    })
+    .single()
+
+  if (error) throw error
+
+  const claim = data as { state: LedgerEntry['state']; outcome: EventOutcome | null }
+  return claim.state === 'duplicate'
+    ? { state: 'duplicate', outcome: claim.outcome }
+    : { state: claim.state }
+}
+
+/**
+ * Whether a newer event for the same payment intent has already been applied,
+ * in which case this (older) event must not overwrite its state.
+ */
+export async function isSuperseded(supabase: SupabaseClient, event: PaymentEvent): Promise<boolean> {
+  if (!event.createdAt) return false
+
+  const { data, error } = await supabase
+    .from('payment_events')
+    .select('id')
+    .eq('payment_intent_id', event.paymentId)
+    .eq('outcome', 'applied')
+    .gt('event_created_at', event.createdAt.toISOString())
+    .limit(1)
+
+  if (error) throw error
+  return (data?.length ?? 0) > 0
+}
+
+export async function markProcessed(supabase: SupabaseClient, eventId: string, outcome: EventOutcome) {
+  const { error } = await supabase
+    .from('payment_events')
+    .update({ processed_at: new Date().toISOString(), outcome, processing_error: null })
+    .eq('id', eventId)
+
+  if (error) throw error
+}
+
+export async function markFailed(supabase: SupabaseClient, eventId: string, message: string) {
+  const { error } = await supabase
+    .from('payment_events')
+    // Release the claim so the gateway's next delivery can retry straight away
+    .update({ processing_error: message, processing_started_at: null })
+    .eq('id', eventId)
+
+  if (error) console.error('Could not record processing error:', error)
+}
@@ -0,0 +1,65 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { timingSafeEqual } from '../_shared/payrexSignature.ts'
+import { orderAssignedPush, sendPushToRider } from '../_shared/push.ts'
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+
+// Shared with the orders_push_on_assignment trigger through Vault
+const PUSH_SECRET_HEADER = 'X-Push-Secret'
+
+interface PushRequest {
+  type: 'order_assigned'
+  order_id: string
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  // 1. Only the database trigger knows the secret
+  const secret = Deno.env.get('PUSH_WEBHOOK_SECRET')
+  if (!secret) {
+    console.error('PUSH_WEBHOOK_SECRET is not configured')
+    return jsonResponse({ error: 'Push is not configured' }, 500)
+  }
+  if (!timingSafeEqual(req.headers.get(PUSH_SECRET_HEADER) ?? '', secret)) {
+    return jsonResponse({ error: 'Invalid push secret' }, 401)
+  }
+
+  let payload: PushRequest
+  try {
+    payload = await req.json()
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400)
+  }
+
+  if (payload?.type !== 'order_assigned' || typeof payload.order_id !== 'string') {
+    return jsonResponse({ error: 'Expected { type: "order_assigned", order_id }' }, 400)
+  }
+
+  // 2. Load the order as it is now; it may have been reassigned since the trigger fired
+  const supabase = createAdminClient()
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('id, rider_id, customer_name, cod_amount')
+    .eq('id', payload.order_id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading order for push:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+  if (!order?.rider_id) {
+    return jsonResponse({ error: 'Order not found or unassigned' }, 404)
+  }
+
+  // 3. Notify the rider's devices
+  const result = await sendPushToRider(supabase, order.rider_id, orderAssignedPush(order))
+  return jsonResponse({ ...result }, 200)
+})
@@ -0,0 +1,110 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { timingSafeEqual } from '../_shared/payrexSignature.ts'
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+
+// Orders checked per { completed_since } call
+const BATCH_LIMIT = 100
+
+type ProofStatus = 'match' | 'mismatch' | 'missing' | 'unhashed'
+
+// { order_id } to check one proof, or { completed_since } to audit a day's deliveries
+interface VerifyRequest {
+  order_id?: string
+  completed_since?: string
+}
+
+interface ProofOrder {
+  id: string
+  proof_url: string | null
+  proof_sha256: string | null
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('')
+
+interface ProofResult {
+  order_id: string
+  status: ProofStatus
+  // Hash of the object currently in the bucket
+  sha256?: string
+}
+
+async function verifyProof(supabase: SupabaseClient, order: ProofOrder): Promise<ProofResult> {
+  // Completed before hashes were recorded, or queued by an older app version
+  if (!order.proof_sha256) return { order_id: order.id, status: 'unhashed' }
+
+  if (!order.proof_url) return { order_id: order.id, status: 'missing' }
+  // proof_url holds the object name; a public URL if the completion predates that
+  const legacyName = order.proof_url.match(/\/proofs\/([^?]+)/)?.[1]
+  const objectName = legacyName ? decodeURIComponent(legacyName) : order.proof_url
+
+  const { data, error } = await supabase.storage.from('proofs').download(objectName)
+  if (error || !data) {
+    console.error(`Proof for order ${order.id} could not be downloaded:`, error?.message)
+    return { order_id: order.id, status: 'missing' }
+  }
+
+  const sha256 = toHex(await crypto.subtle.digest('SHA-256', await data.arrayBuffer()))
+  return {
+    order_id: order.id,
+    status: timingSafeEqual(sha256, order.proof_sha256) ? 'match' : 'mismatch',
+    sha256,
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  // 1. Ops only: the caller must present the service role key
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '') ?? ''
+  if (!serviceKey || !timingSafeEqual(token, serviceKey)) {
+    return jsonResponse({ error: 'Service role key required' }, 403)
+  }
+
+  let payload: VerifyRequest
+  try {
+    payload = await req.json()
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400)
+  }
+
+  if (typeof payload?.order_id !== 'string' && typeof payload?.completed_since !== 'string') {
+    return jsonResponse({ error: 'Expected { order_id } or { completed_since }' }, 400)
+  }
+
+  // 2. Load the order(s) with their stored hash
+  const supabase = createAdminClient()
+  const query = supabase.from('orders').select('id, proof_url, proof_sha256').eq('status', 'COMPLETED')
+  const { data: orders, error } = payload.order_id
+    ? await query.eq('id', payload.order_id)
+    : await query.gte('delivery_timestamp', payload.completed_since!).order('delivery_timestamp').limit(BATCH_LIMIT)
+
+  if (error) {
+    console.error('Error loading orders to verify:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+  if (payload.order_id && orders.length === 0) {
+    return jsonResponse({ error: 'Completed order not found' }, 404)
+  }
+
+  // 3. Re-hash each stored proof and compare
+  const results: ProofResult[] = []
+  for (const order of orders as ProofOrder[]) {
+    results.push(await verifyProof(supabase, order))
+  }
+
+  return jsonResponse({
+    results,
+    mismatched: results.filter((result) => result.status === 'mismatch').length,
+  }, 200)
+})
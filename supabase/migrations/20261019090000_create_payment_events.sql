@@ -0,0 +1,27 @@
+-- Ledger of every PayRex webhook event received by payrex-webhook.
+-- The PayRex event id is the primary key, so re-deliveries of the same event
+-- are detected and acknowledged without re-applying their side effects.
+
+create table if not exists public.payment_events (
+  id text primary key,                          -- PayRex event id (evt_...)
+  type text not null,                           -- e.g. payment_intent.succeeded
+  payment_intent_id text,
+  order_id uuid,
+  livemode boolean not null default false,
+  payload jsonb not null,                       -- raw event body, kept for audit
+  event_created_at timestamptz,                 -- when PayRex created the event
+  received_at timestamptz not null default now(),
+  processed_at timestamptz,
+  outcome text check (outcome in ('applied', 'ignored', 'superseded')),
+  processing_error text,
+  delivery_attempts integer not null default 1
+);
+
+create index if not exists payment_events_payment_intent_id_idx
+  on public.payment_events (payment_intent_id, event_created_at desc);
+
+create index if not exists payment_events_order_id_idx
+  on public.payment_events (order_id);
+
+-- Only the service role (edge functions) touches the ledger.
+alter table public.payment_events enable row level security;
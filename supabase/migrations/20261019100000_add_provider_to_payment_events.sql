@@ -0,0 +1,4 @@
+-- payment_events can now come from any configured payment provider (payrex, mock).
+
+alter table public.payment_events
+  add column if not exists provider text not null default 'payrex';
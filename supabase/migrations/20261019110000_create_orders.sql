@@ -0,0 +1,73 @@
+-- Delivery orders assigned to riders.
+-- Columns mirror what the rider app and the generate-qr / payrex-webhook
+-- functions read and write.
+
+create table if not exists public.orders (
+  id uuid primary key default gen_random_uuid(),
+  rider_id uuid references auth.users (id) on delete set null,
+  customer_name text not null,
+  address text not null,
+  cod_amount numeric(10, 2) not null check (cod_amount > 0),
+  status text not null default 'PENDING',
+
+  -- QR Ph payment (issued by generate-qr, settled by payrex-webhook)
+  qr_ph text,                                   -- raw EMVCo payload rendered on-device
+  qr_generated_at timestamptz,
+  qr_expires_at timestamptz,
+  payrex_payment_intent_id text,                -- live payment intent behind qr_ph
+  payrex_id text,                               -- payment that settled the order
+  payment_method text,
+
+  -- Proof of delivery
+  cash_fallback_reason text,
+  proof_url text,
+  delivery_latitude double precision,
+  delivery_longitude double precision,
+  delivery_timestamp timestamptz,
+
+  created_at timestamptz not null default now(),
+
+  constraint orders_status_check check (status in (
+    'PENDING',
+    'EN_ROUTE',
+    'ARRIVED',
+    'PAYMENT_FAILED',
+    'PAID',
+    'COMPLETED',
+    'REFUNDED'
+  )),
+  constraint orders_payment_method_check check (payment_method in ('QRPH', 'CASH')),
+  constraint orders_cash_fallback_reason_check check (
+    cash_fallback_reason in ('QR_PAYMENT_UNAVAILABLE', 'CUSTOMER_REQUEST')
+  ),
+  constraint orders_delivery_latitude_check check (delivery_latitude between -90 and 90),
+  constraint orders_delivery_longitude_check check (delivery_longitude between -180 and 180)
+);
+
+-- Rider order list: .eq('rider_id', ...).order('created_at', { ascending: false })
+create index if not exists orders_rider_id_created_at_idx
+  on public.orders (rider_id, created_at desc);
+
+create index if not exists orders_status_idx
+  on public.orders (status);
+
+create index if not exists orders_created_at_idx
+  on public.orders (created_at desc);
+
+-- Webhook lookups for events that carry no order_id metadata
+create index if not exists orders_payrex_payment_intent_id_idx
+  on public.orders (payrex_payment_intent_id)
+  where payrex_payment_intent_id is not null;
+
+create index if not exists orders_payrex_id_idx
+  on public.orders (payrex_id)
+  where payrex_id is not null;
+
+-- The app listens for order changes over realtime and compares old and new rows
+alter table public.orders replica identity full;
+alter publication supabase_realtime add table public.orders;
+
+-- Now that orders exist, tie the payment ledger to them
+alter table public.payment_events
+  add constraint payment_events_order_id_fkey
+  foreign key (order_id) references public.orders (id) on delete set null;
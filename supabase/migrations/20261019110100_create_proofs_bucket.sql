@@ -0,0 +1,11 @@
+-- Storage bucket for proof-of-delivery photos.
+-- Public so the app can store a plain public URL in orders.proof_url.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('proofs', 'proofs', true, 10485760, array['image/jpeg', 'image/png'])
+on conflict (id) do nothing;
+
+create policy "Authenticated users can upload proofs"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'proofs');
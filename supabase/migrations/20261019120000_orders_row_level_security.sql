@@ -0,0 +1,90 @@
+-- Row-level security for orders and proof photos.
+--
+-- Riders (the `authenticated` role) only see and edit orders assigned to them,
+-- and only the columns the app writes during a delivery. Edge functions use the
+-- service role, which bypasses RLS and keeps full access.
+
+alter table public.orders enable row level security;
+
+-- Orders are created and assigned by dispatch (service role), never by the app
+revoke all on public.orders from anon, authenticated;
+grant select on public.orders to authenticated;
+grant update (
+  status,
+  payment_method,
+  cash_fallback_reason,
+  proof_url,
+  delivery_latitude,
+  delivery_longitude,
+  delivery_timestamp,
+  qr_ph,
+  qr_generated_at,
+  qr_expires_at,
+  payrex_payment_intent_id
+) on public.orders to authenticated;
+
+create policy "Riders can read their own orders"
+  on public.orders for select
+  to authenticated
+  using (rider_id = (select auth.uid()));
+
+create policy "Riders can update their own orders"
+  on public.orders for update
+  to authenticated
+  using (rider_id = (select auth.uid()))
+  with check (rider_id = (select auth.uid()));
+
+-- Payment outcomes (PAID, PAYMENT_FAILED, REFUNDED) only come from payrex-webhook;
+-- a rider may only move an order along the delivery itself.
+create or replace function public.orders_guard_rider_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.role() = 'authenticated'
+     and new.status is distinct from old.status
+     and new.status not in ('EN_ROUTE', 'ARRIVED', 'COMPLETED') then
+    raise exception 'Riders cannot set order status to %', new.status
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger orders_guard_rider_status
+  before update of status on public.orders
+  for each row execute function public.orders_guard_rider_status();
+
+-- The payment ledger is internal to the edge functions
+revoke all on public.payment_events from anon, authenticated;
+
+-- Proof photos are named `<orderId>_<timestamp>.jpg`; a rider may only upload
+-- proofs for orders assigned to them. The bucket stays public for reads so
+-- orders.proof_url works as a plain link.
+drop policy if exists "Authenticated users can upload proofs" on storage.objects;
+
+create policy "Riders can upload proofs for their own orders"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'proofs'
+    and exists (
+      select 1
+      from public.orders
+      where orders.id::text = split_part(storage.objects.name, '_', 1)
+        and orders.rider_id = (select auth.uid())
+    )
+  );
+
+create policy "Riders can read proofs for their own orders"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'proofs'
+    and exists (
+      select 1
+      from public.orders
+      where orders.id::text = split_part(storage.objects.name, '_', 1)
+        and orders.rider_id = (select auth.uid())
+    )
+  );
@@ -0,0 +1,110 @@
+-- Server-enforced order status state machine.
+--
+-- Mirrors supabase/functions/_shared/orderStatus.ts (used by the app and the
+-- edge functions); keep the two in sync. Every status change, from any client,
+-- is checked here and recorded in order_status_history.
+
+create table if not exists public.order_status_history (
+  id bigint generated always as identity primary key,
+  order_id uuid not null references public.orders (id) on delete cascade,
+  from_status text,                             -- null when the order was created
+  to_status text not null,
+  actor_id uuid,                                -- auth.uid() of the rider, null for service role
+  actor_role text not null,                     -- authenticated, service_role, postgres...
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists order_status_history_order_id_idx
+  on public.order_status_history (order_id, changed_at);
+
+alter table public.order_status_history enable row level security;
+
+revoke all on public.order_status_history from anon, authenticated;
+grant select on public.order_status_history to authenticated;
+
+create policy "Riders can read the history of their own orders"
+  on public.order_status_history for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.orders
+      where orders.id = order_status_history.order_id
+        and orders.rider_id = (select auth.uid())
+    )
+  );
+
+-- Legal moves out of each status (ORDER_STATUS_TRANSITIONS)
+create or replace function public.order_status_transition_allowed(from_status text, to_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select case from_status
+    when 'PENDING' then to_status in ('EN_ROUTE')
+    when 'EN_ROUTE' then to_status in ('ARRIVED')
+    when 'ARRIVED' then to_status in ('PAID', 'PAYMENT_FAILED', 'COMPLETED')
+    when 'PAYMENT_FAILED' then to_status in ('PAID', 'COMPLETED')
+    when 'PAID' then to_status in ('COMPLETED', 'REFUNDED')
+    when 'COMPLETED' then to_status in ('REFUNDED')
+    else false
+  end;
+$$;
+
+-- Replaces the rider-only guard from the RLS migration
+drop trigger if exists orders_guard_rider_status on public.orders;
+drop function if exists public.orders_guard_rider_status();
+
+create or replace function public.orders_enforce_status_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if not public.order_status_transition_allowed(old.status, new.status) then
+    raise exception 'Illegal order status transition % -> %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+
+  -- Payment outcomes (SYSTEM_ONLY_STATUSES) only come from the edge functions
+  if auth.role() = 'authenticated' and new.status in ('PAID', 'PAYMENT_FAILED', 'REFUNDED') then
+    raise exception 'Riders cannot set order status to %', new.status
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger orders_enforce_status_transition
+  before update of status on public.orders
+  for each row execute function public.orders_enforce_status_transition();
+
+-- Security definer: riders have no write access to the history table itself
+create or replace function public.orders_record_status_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into public.order_status_history (order_id, from_status, to_status, actor_id, actor_role)
+    values (
+      new.id,
+      case when tg_op = 'UPDATE' then old.status end,
+      new.status,
+      auth.uid(),
+      coalesce(auth.role(), current_user)
+    );
+  end if;
+  return new;
+end;
+$$;
+
+create trigger orders_record_status_history
+  after insert or update of status on public.orders
+  for each row execute function public.orders_record_status_history();
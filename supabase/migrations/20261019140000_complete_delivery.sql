@@ -0,0 +1,153 @@
+-- complete_delivery: finish a delivery in a single transaction.
+--
+-- Validates the payment state, proof photo and delivery location, then writes
+-- the payment method, proof, GPS fix and COMPLETED status together, so a
+-- failure can never leave an order half-completed.
+--
+-- Errors are raised with SQLSTATE P0001 and a machine-readable code as the
+-- message (see DeliveryErrorCode in rider-app/services/deliveryService.ts).
+-- Runs as the caller, so row-level security and the status guard still apply.
+
+create or replace function public.complete_delivery(
+  p_order_id uuid,
+  p_payment_method text,
+  p_proof_url text,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_delivered_at timestamptz default now(),
+  p_cash_reason text default null
+)
+returns public.orders
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_order public.orders;
+  v_proof_name text;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception using errcode = 'P0001', message = 'order_not_found',
+      detail = format('Order %s not found', p_order_id);
+  end if;
+
+  -- A retried call (e.g. after a dropped response) gets the completed order back
+  if v_order.status = 'COMPLETED' then
+    return v_order;
+  end if;
+
+  -- Payment state
+  if v_order.status not in ('ARRIVED', 'PAYMENT_FAILED', 'PAID') then
+    raise exception using errcode = 'P0001', message = 'invalid_status',
+      detail = format('Cannot complete an order in %s status', v_order.status);
+  end if;
+
+  if p_payment_method = 'QRPH' then
+    if v_order.status <> 'PAID' then
+      raise exception using errcode = 'P0001', message = 'payment_required',
+        detail = 'QR payment has not been confirmed for this order';
+    end if;
+  elsif p_payment_method = 'CASH' then
+    if v_order.status = 'PAID' then
+      raise exception using errcode = 'P0001', message = 'invalid_status',
+        detail = 'Order was already paid by QR';
+    end if;
+    if p_cash_reason is null or p_cash_reason not in ('QR_PAYMENT_UNAVAILABLE', 'CUSTOMER_REQUEST') then
+      raise exception using errcode = 'P0001', message = 'cash_reason_required',
+        detail = 'A valid cash fallback reason is required for cash payments';
+    end if;
+  else
+    raise exception using errcode = 'P0001', message = 'invalid_payment_method',
+      detail = format('Unknown payment method %s', p_payment_method);
+  end if;
+
+  -- Delivery location
+  if p_latitude is null or p_longitude is null then
+    raise exception using errcode = 'P0001', message = 'location_required',
+      detail = 'A GPS fix is required to complete a delivery';
+  end if;
+
+  if p_latitude not between -90 and 90 or p_longitude not between -180 and 180 then
+    raise exception using errcode = 'P0001', message = 'invalid_location',
+      detail = format('Invalid coordinates %s, %s', p_latitude, p_longitude);
+  end if;
+
+  -- Proof photo: must be an uploaded `<orderId>_<timestamp>.jpg` object in the proofs bucket
+  if coalesce(trim(p_proof_url), '') = '' then
+    raise exception using errcode = 'P0001', message = 'proof_required',
+      detail = 'A proof of delivery photo is required';
+  end if;
+
+  v_proof_name := substring(p_proof_url from '/proofs/([^?]+)');
+
+  if v_proof_name is null
+     or split_part(v_proof_name, '_', 1) <> p_order_id::text
+     or not exists (
+       select 1
+       from storage.objects
+       where bucket_id = 'proofs'
+         and name = v_proof_name
+     ) then
+    raise exception using errcode = 'P0001', message = 'proof_not_found',
+      detail = 'Proof photo was not uploaded for this order';
+  end if;
+
+  -- Lets the status guard tell this path apart from a bare client update
+  perform set_config('app.completing_delivery', 'on', true);
+
+  update public.orders
+  set status = 'COMPLETED',
+      payment_method = p_payment_method,
+      cash_fallback_reason = case when p_payment_method = 'CASH' then p_cash_reason end,
+      proof_url = p_proof_url,
+      delivery_latitude = p_latitude,
+      delivery_longitude = p_longitude,
+      delivery_timestamp = coalesce(p_delivered_at, now())
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke execute on function public.complete_delivery(uuid, text, text, double precision, double precision, timestamptz, text)
+  from public, anon;
+grant execute on function public.complete_delivery(uuid, text, text, double precision, double precision, timestamptz, text)
+  to authenticated, service_role;
+
+-- Riders may only complete an order through complete_delivery
+create or replace function public.orders_enforce_status_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if not public.order_status_transition_allowed(old.status, new.status) then
+    raise exception 'Illegal order status transition % -> %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+
+  -- Payment outcomes (SYSTEM_ONLY_STATUSES) only come from the edge functions
+  if auth.role() = 'authenticated' and new.status in ('PAID', 'PAYMENT_FAILED', 'REFUNDED') then
+    raise exception 'Riders cannot set order status to %', new.status
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if auth.role() = 'authenticated'
+     and new.status = 'COMPLETED'
+     and current_setting('app.completing_delivery', true) is distinct from 'on' then
+    raise exception 'Use complete_delivery to complete an order'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
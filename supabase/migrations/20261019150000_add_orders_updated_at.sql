@@ -0,0 +1,23 @@
+-- Track when each order last changed so the app can sync only what changed
+-- since its last sync instead of refetching every order.
+
+alter table public.orders
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger orders_set_updated_at
+  before update on public.orders
+  for each row execute function public.set_updated_at();
+
+-- Delta sync: .eq('rider_id', ...).gt('updated_at', cursor)
+create index if not exists orders_rider_id_updated_at_idx
+  on public.orders (rider_id, updated_at);
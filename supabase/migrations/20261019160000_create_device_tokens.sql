@@ -0,0 +1,126 @@
+-- Push notification tokens and the order-assignment push.
+--
+-- The app registers its Expo push token per rider; the `send-push` edge
+-- function delivers to every token the rider has. A trigger calls that
+-- function (through pg_net) whenever an order is assigned to a rider.
+
+create table if not exists public.device_tokens (
+  id uuid primary key default gen_random_uuid(),
+  rider_id uuid not null references auth.users (id) on delete cascade,
+  -- ExponentPushToken[...]; a device belongs to whichever rider signed in last
+  token text not null unique,
+  platform text not null check (platform in ('ios', 'android', 'web')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists device_tokens_rider_id_idx
+  on public.device_tokens (rider_id);
+
+create trigger device_tokens_set_updated_at
+  before update on public.device_tokens
+  for each row execute function public.set_updated_at();
+
+alter table public.device_tokens enable row level security;
+
+revoke all on public.device_tokens from anon, authenticated;
+grant select, insert, update, delete on public.device_tokens to authenticated;
+
+create policy "Riders can read their own device tokens"
+  on public.device_tokens for select
+  to authenticated
+  using (rider_id = (select auth.uid()));
+
+create policy "Riders can register their own device tokens"
+  on public.device_tokens for insert
+  to authenticated
+  with check (rider_id = (select auth.uid()));
+
+create policy "Riders can update their own device tokens"
+  on public.device_tokens for update
+  to authenticated
+  using (rider_id = (select auth.uid()))
+  with check (rider_id = (select auth.uid()));
+
+create policy "Riders can remove their own device tokens"
+  on public.device_tokens for delete
+  to authenticated
+  using (rider_id = (select auth.uid()));
+
+-- A token registered by the previous rider on a shared device moves to the new one.
+-- The upsert can't see the other rider's row through RLS, so claim it here.
+create or replace function public.register_device_token(p_token text, p_platform text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = 'insufficient_privilege';
+  end if;
+
+  insert into public.device_tokens (rider_id, token, platform)
+  values (auth.uid(), p_token, p_platform)
+  on conflict (token) do update
+    set rider_id = excluded.rider_id,
+        platform = excluded.platform;
+end;
+$$;
+
+revoke execute on function public.register_device_token(text, text) from public, anon;
+grant execute on function public.register_device_token(text, text) to authenticated;
+
+-- Order assignment push
+create extension if not exists pg_net with schema extensions;
+
+-- Reads the functions URL and shared secret from Vault (see supabase/seed.sql).
+-- Without them configured the push is skipped rather than failing the write.
+create or replace function public.orders_push_on_assignment()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_functions_url text;
+  v_secret text;
+begin
+  if new.rider_id is null then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    if new.rider_id is not distinct from old.rider_id then
+      return new;
+    end if;
+  end if;
+
+  select decrypted_secret into v_functions_url
+  from vault.decrypted_secrets
+  where name = 'functions_url';
+
+  select decrypted_secret into v_secret
+  from vault.decrypted_secrets
+  where name = 'push_webhook_secret';
+
+  if v_functions_url is null or v_secret is null then
+    return new;
+  end if;
+
+  perform net.http_post(
+    url := v_functions_url || '/send-push',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Push-Secret', v_secret
+    ),
+    body := jsonb_build_object('type', 'order_assigned', 'order_id', new.id)
+  );
+
+  return new;
+end;
+$$;
+
+create trigger orders_push_on_assignment
+  after insert or update of rider_id on public.orders
+  for each row execute function public.orders_push_on_assignment();
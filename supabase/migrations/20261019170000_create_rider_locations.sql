@@ -0,0 +1,73 @@
+-- Rider location breadcrumbs.
+--
+-- While an order is EN_ROUTE the app samples the rider's position in the
+-- background and uploads it here in batches. Dispatch reads the latest point
+-- per rider for live position (and can subscribe through realtime); the
+-- points for an order make up its trip trace.
+
+create table if not exists public.rider_locations (
+  id bigint generated always as identity primary key,
+  rider_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  -- The order being delivered; kept as history if the order is removed
+  order_id uuid references public.orders (id) on delete set null,
+  latitude double precision not null check (latitude between -90 and 90),
+  longitude double precision not null check (longitude between -180 and 180),
+  accuracy real check (accuracy >= 0),
+  speed real,
+  heading real,
+  -- Device time of the fix; uploads can lag it by minutes when offline
+  recorded_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rider_locations_order_id_idx
+  on public.rider_locations (order_id, recorded_at);
+
+create index if not exists rider_locations_rider_id_idx
+  on public.rider_locations (rider_id, recorded_at desc);
+
+alter table public.rider_locations enable row level security;
+
+-- Breadcrumbs are append-only for riders
+revoke all on public.rider_locations from anon, authenticated;
+grant select, insert on public.rider_locations to authenticated;
+
+create policy "Riders can read their own locations"
+  on public.rider_locations for select
+  to authenticated
+  using (rider_id = (select auth.uid()));
+
+create policy "Riders can record their own locations"
+  on public.rider_locations for insert
+  to authenticated
+  with check (
+    rider_id = (select auth.uid())
+    and (
+      order_id is null
+      or exists (
+        select 1 from public.orders
+        where orders.id = order_id
+          and orders.rider_id = (select auth.uid())
+      )
+    )
+  );
+
+-- Live position: the most recent breadcrumb of each rider
+create or replace view public.rider_latest_locations
+with (security_invoker = true)
+as
+select distinct on (rider_id)
+  rider_id,
+  order_id,
+  latitude,
+  longitude,
+  accuracy,
+  speed,
+  heading,
+  recorded_at
+from public.rider_locations
+order by rider_id, recorded_at desc;
+
+grant select on public.rider_latest_locations to authenticated;
+
+alter publication supabase_realtime add table public.rider_locations;
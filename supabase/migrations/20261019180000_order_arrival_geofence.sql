@@ -0,0 +1,177 @@
+-- Arrival geofence.
+--
+-- Orders carry the destination's coordinates and a radius around them. Riders
+-- mark an order ARRIVED through mark_arrived, which checks their GPS fix
+-- against that fence: arrival from outside it is rejected unless the rider
+-- reports it anyway, in which case the order is flagged for review.
+--
+-- Orders without destination coordinates have no fence and arrive as before.
+--
+-- Errors are raised with SQLSTATE P0001 and a machine-readable code as the
+-- message, like complete_delivery.
+
+alter table public.orders
+  add column if not exists destination_latitude double precision
+    check (destination_latitude between -90 and 90),
+  add column if not exists destination_longitude double precision
+    check (destination_longitude between -180 and 180),
+  -- Dispatch can widen it for large compounds or malls
+  add column if not exists arrival_radius_m integer not null default 150
+    check (arrival_radius_m > 0),
+  add column if not exists arrival_latitude double precision,
+  add column if not exists arrival_longitude double precision,
+  add column if not exists arrival_distance_m double precision,
+  add column if not exists arrival_flagged boolean not null default false,
+  add column if not exists arrived_at timestamptz;
+
+create index if not exists orders_arrival_flagged_idx
+  on public.orders (arrival_flagged)
+  where arrival_flagged;
+
+-- Great-circle distance in metres
+create or replace function public.distance_meters(
+  lat1 double precision,
+  lon1 double precision,
+  lat2 double precision,
+  lon2 double precision
+)
+returns double precision
+language sql
+immutable
+strict
+set search_path = ''
+as $$
+  select 2 * 6371000 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lon2 - lon1) / 2), 2)
+  ))
+$$;
+
+-- Security definer so riders can't write the arrival columns (and clear the
+-- flag) with a plain update; ownership is checked here instead.
+create or replace function public.mark_arrived(
+  p_order_id uuid,
+  p_latitude double precision default null,
+  p_longitude double precision default null,
+  p_accuracy double precision default null,
+  p_arrived_at timestamptz default now(),
+  p_outside_fence_ok boolean default false
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_order public.orders;
+  v_distance double precision;
+  v_outside boolean := false;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+    and rider_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception using errcode = 'P0001', message = 'order_not_found',
+      detail = format('Order %s not found', p_order_id);
+  end if;
+
+  -- A retried call gets the arrived order back
+  if v_order.status = 'ARRIVED' then
+    return v_order;
+  end if;
+
+  if v_order.status <> 'EN_ROUTE' then
+    raise exception using errcode = 'P0001', message = 'invalid_status',
+      detail = format('Cannot arrive at an order in %s status', v_order.status);
+  end if;
+
+  if p_latitude is not null and p_longitude is not null
+     and (p_latitude not between -90 and 90 or p_longitude not between -180 and 180) then
+    raise exception using errcode = 'P0001', message = 'invalid_location',
+      detail = format('Invalid coordinates %s, %s', p_latitude, p_longitude);
+  end if;
+
+  if v_order.destination_latitude is not null and v_order.destination_longitude is not null then
+    if p_latitude is null or p_longitude is null then
+      v_outside := true;
+      if not p_outside_fence_ok then
+        raise exception using errcode = 'P0001', message = 'location_required',
+          detail = 'A GPS fix is required to confirm arrival';
+      end if;
+    else
+      v_distance := public.distance_meters(
+        p_latitude, p_longitude,
+        v_order.destination_latitude, v_order.destination_longitude
+      );
+      -- Give the benefit of the doubt up to the fix's own error margin
+      v_outside := v_distance - coalesce(p_accuracy, 0) > v_order.arrival_radius_m;
+      if v_outside and not p_outside_fence_ok then
+        raise exception using errcode = 'P0001', message = 'outside_geofence',
+          detail = format('%s m from the destination (fence %s m)', round(v_distance), v_order.arrival_radius_m);
+      end if;
+    end if;
+  end if;
+
+  -- Lets the status guard tell this path apart from a bare client update
+  perform set_config('app.marking_arrival', 'on', true);
+
+  update public.orders
+  set status = 'ARRIVED',
+      arrival_latitude = p_latitude,
+      arrival_longitude = p_longitude,
+      arrival_distance_m = v_distance,
+      arrival_flagged = v_outside,
+      arrived_at = coalesce(p_arrived_at, now())
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke execute on function public.mark_arrived(uuid, double precision, double precision, double precision, timestamptz, boolean)
+  from public, anon;
+grant execute on function public.mark_arrived(uuid, double precision, double precision, double precision, timestamptz, boolean)
+  to authenticated;
+
+-- Riders may only arrive through mark_arrived, and complete through complete_delivery
+create or replace function public.orders_enforce_status_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if not public.order_status_transition_allowed(old.status, new.status) then
+    raise exception 'Illegal order status transition % -> %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+
+  -- Payment outcomes (SYSTEM_ONLY_STATUSES) only come from the edge functions
+  if auth.role() = 'authenticated' and new.status in ('PAID', 'PAYMENT_FAILED', 'REFUNDED') then
+    raise exception 'Riders cannot set order status to %', new.status
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if auth.role() = 'authenticated'
+     and new.status = 'ARRIVED'
+     and current_setting('app.marking_arrival', true) is distinct from 'on' then
+    raise exception 'Use mark_arrived to arrive at an order'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if auth.role() = 'authenticated'
+     and new.status = 'COMPLETED'
+     and current_setting('app.completing_delivery', true) is distinct from 'on' then
+    raise exception 'Use complete_delivery to complete an order'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,112 @@
+-- Structured, geocoded order addresses.
+--
+-- Dispatch still enters a free-text address. A trigger sends new and changed
+-- addresses to the `geocode-order` edge function (through pg_net), which
+-- fills in the destination coordinates used by the arrival geofence plus the
+-- barangay, city and a nearby landmark for the rider.
+--
+-- geocode_status:
+--   pending      waiting for the geocoder
+--   geocoded     street-level match; destination coordinates set
+--   approximate  only a coarse match (e.g. the city); no coordinates, so no geofence
+--   not_found    the geocoder doesn't know the address
+--   failed       the geocoder errored; retried by a { "pending": true } backfill
+
+alter table public.orders
+  add column if not exists barangay text,
+  add column if not exists city text,
+  add column if not exists landmark text,
+  add column if not exists geocode_status text not null default 'pending'
+    check (geocode_status in ('pending', 'geocoded', 'approximate', 'not_found', 'failed')),
+  add column if not exists geocoded_at timestamptz;
+
+create index if not exists orders_geocode_status_idx
+  on public.orders (geocode_status)
+  where geocode_status in ('pending', 'failed');
+
+-- Existing orders that already have coordinates don't need a lookup
+update public.orders
+set geocode_status = 'geocoded'
+where destination_latitude is not null
+  and destination_longitude is not null;
+
+-- A changed address makes the old location stale, unless the same update
+-- supplies the new values itself.
+create or replace function public.orders_reset_geocode()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.address is not distinct from old.address then
+    return new;
+  end if;
+
+  if new.destination_latitude is not distinct from old.destination_latitude
+     and new.destination_longitude is not distinct from old.destination_longitude then
+    new.destination_latitude := null;
+    new.destination_longitude := null;
+  end if;
+  if new.barangay is not distinct from old.barangay then
+    new.barangay := null;
+  end if;
+  if new.city is not distinct from old.city then
+    new.city := null;
+  end if;
+  if new.landmark is not distinct from old.landmark then
+    new.landmark := null;
+  end if;
+
+  new.geocode_status := 'pending';
+  new.geocoded_at := null;
+  return new;
+end;
+$$;
+
+create trigger orders_reset_geocode
+  before update of address on public.orders
+  for each row execute function public.orders_reset_geocode();
+
+-- Reads the functions URL and shared secret from Vault (see supabase/seed.sql).
+-- Without them configured the lookup is skipped and the order stays pending.
+create or replace function public.orders_geocode_address()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_functions_url text;
+  v_secret text;
+begin
+  if new.geocode_status <> 'pending' then
+    return new;
+  end if;
+
+  select decrypted_secret into v_functions_url
+  from vault.decrypted_secrets
+  where name = 'functions_url';
+
+  select decrypted_secret into v_secret
+  from vault.decrypted_secrets
+  where name = 'geocode_webhook_secret';
+
+  if v_functions_url is null or v_secret is null then
+    return new;
+  end if;
+
+  perform net.http_post(
+    url := v_functions_url || '/geocode-order',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Geocode-Secret', v_secret
+    ),
+    body := jsonb_build_object('order_id', new.id)
+  );
+
+  return new;
+end;
+$$;
+
+create trigger orders_geocode_address
+  after insert or update of address on public.orders
+  for each row execute function public.orders_geocode_address();
@@ -0,0 +1,170 @@
+-- Proof-of-delivery location quality.
+--
+-- complete_delivery now also records how good the rider's GPS fix was and how
+-- far it is from the order's destination. It doesn't reject a weak fix; it
+-- flags the order for review so ops can follow up:
+--
+-- delivery_flags:
+--   poor_accuracy     the fix's accuracy is worse than 100 m, or unknown
+--   mock_location     the device reported the fix as mocked (Android)
+--   outside_geofence  the fix is outside the order's arrival radius
+--
+-- Riders can't write these columns; complete_delivery is now security definer
+-- and checks ownership itself, like mark_arrived.
+
+alter table public.orders
+  add column if not exists delivery_accuracy_m double precision,
+  add column if not exists delivery_mocked boolean not null default false,
+  add column if not exists delivery_distance_m double precision,
+  add column if not exists delivery_flags text[] not null default '{}'
+    check (delivery_flags <@ array['poor_accuracy', 'mock_location', 'outside_geofence']),
+  add column if not exists delivery_flagged boolean not null default false;
+
+create index if not exists orders_delivery_flagged_idx
+  on public.orders (delivery_flagged)
+  where delivery_flagged;
+
+-- Replaced by the version below with accuracy and mock-location arguments
+drop function if exists public.complete_delivery(uuid, text, text, double precision, double precision, timestamptz, text);
+
+create or replace function public.complete_delivery(
+  p_order_id uuid,
+  p_payment_method text,
+  p_proof_url text,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_delivered_at timestamptz default now(),
+  p_cash_reason text default null,
+  p_accuracy double precision default null,
+  p_mocked boolean default false
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_order public.orders;
+  v_proof_name text;
+  v_distance double precision;
+  v_flags text[] := '{}';
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+    and (rider_id = auth.uid() or auth.role() = 'service_role')
+  for update;
+
+  if not found then
+    raise exception using errcode = 'P0001', message = 'order_not_found',
+      detail = format('Order %s not found', p_order_id);
+  end if;
+
+  -- A retried call (e.g. after a dropped response) gets the completed order back
+  if v_order.status = 'COMPLETED' then
+    return v_order;
+  end if;
+
+  -- Payment state
+  if v_order.status not in ('ARRIVED', 'PAYMENT_FAILED', 'PAID') then
+    raise exception using errcode = 'P0001', message = 'invalid_status',
+      detail = format('Cannot complete an order in %s status', v_order.status);
+  end if;
+
+  if p_payment_method = 'QRPH' then
+    if v_order.status <> 'PAID' then
+      raise exception using errcode = 'P0001', message = 'payment_required',
+        detail = 'QR payment has not been confirmed for this order';
+    end if;
+  elsif p_payment_method = 'CASH' then
+    if v_order.status = 'PAID' then
+      raise exception using errcode = 'P0001', message = 'invalid_status',
+        detail = 'Order was already paid by QR';
+    end if;
+    if p_cash_reason is null or p_cash_reason not in ('QR_PAYMENT_UNAVAILABLE', 'CUSTOMER_REQUEST') then
+      raise exception using errcode = 'P0001', message = 'cash_reason_required',
+        detail = 'A valid cash fallback reason is required for cash payments';
+    end if;
+  else
+    raise exception using errcode = 'P0001', message = 'invalid_payment_method',
+      detail = format('Unknown payment method %s', p_payment_method);
+  end if;
+
+  -- Delivery location
+  if p_latitude is null or p_longitude is null then
+    raise exception using errcode = 'P0001', message = 'location_required',
+      detail = 'A GPS fix is required to complete a delivery';
+  end if;
+
+  if p_latitude not between -90 and 90 or p_longitude not between -180 and 180 then
+    raise exception using errcode = 'P0001', message = 'invalid_location',
+      detail = format('Invalid coordinates %s, %s', p_latitude, p_longitude);
+  end if;
+
+  -- Proof photo: must be an uploaded `<orderId>_<timestamp>.jpg` object in the proofs bucket
+  if coalesce(trim(p_proof_url), '') = '' then
+    raise exception using errcode = 'P0001', message = 'proof_required',
+      detail = 'A proof of delivery photo is required';
+  end if;
+
+  v_proof_name := substring(p_proof_url from '/proofs/([^?]+)');
+
+  if v_proof_name is null
+     or split_part(v_proof_name, '_', 1) <> p_order_id::text
+     or not exists (
+       select 1
+       from storage.objects
+       where bucket_id = 'proofs'
+         and name = v_proof_name
+     ) then
+    raise exception using errcode = 'P0001', message = 'proof_not_found',
+      detail = 'Proof photo was not uploaded for this order';
+  end if;
+
+  -- Location quality: flag rather than reject, a rider at the door can't do better
+  if p_accuracy is null or p_accuracy > 100 then
+    v_flags := array_append(v_flags, 'poor_accuracy');
+  end if;
+
+  if coalesce(p_mocked, false) then
+    v_flags := array_append(v_flags, 'mock_location');
+  end if;
+
+  if v_order.destination_latitude is not null and v_order.destination_longitude is not null then
+    v_distance := public.distance_meters(
+      p_latitude, p_longitude,
+      v_order.destination_latitude, v_order.destination_longitude
+    );
+    -- Same benefit of the doubt as mark_arrived
+    if v_distance - coalesce(p_accuracy, 0) > v_order.arrival_radius_m then
+      v_flags := array_append(v_flags, 'outside_geofence');
+    end if;
+  end if;
+
+  -- Lets the status guard tell this path apart from a bare client update
+  perform set_config('app.completing_delivery', 'on', true);
+
+  update public.orders
+  set status = 'COMPLETED',
+      payment_method = p_payment_method,
+      cash_fallback_reason = case when p_payment_method = 'CASH' then p_cash_reason end,
+      proof_url = p_proof_url,
+      delivery_latitude = p_latitude,
+      delivery_longitude = p_longitude,
+      delivery_timestamp = coalesce(p_delivered_at, now()),
+      delivery_accuracy_m = p_accuracy,
+      delivery_mocked = coalesce(p_mocked, false),
+      delivery_distance_m = v_distance,
+      delivery_flags = v_flags,
+      delivery_flagged = cardinality(v_flags) > 0
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke execute on function public.complete_delivery(uuid, text, text, double precision, double precision, timestamptz, text, double precision, boolean)
+  from public, anon;
+grant execute on function public.complete_delivery(uuid, text, text, double precision, double precision, timestamptz, text, double precision, boolean)
+  to authenticated, service_role;
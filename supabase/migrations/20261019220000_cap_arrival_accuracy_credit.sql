@@ -0,0 +1,91 @@
+-- Cap the accuracy credit mark_arrived gives a GPS fix.
+--
+-- The fix's reported accuracy was subtracted from its distance to the
+-- destination without a limit, so a very poor (or made-up) accuracy let a
+-- rider arrive from kilometres away without being flagged. The credit is now
+-- at most the order's arrival radius.
+
+create or replace function public.mark_arrived(
+  p_order_id uuid,
+  p_latitude double precision default null,
+  p_longitude double precision default null,
+  p_accuracy double precision default null,
+  p_arrived_at timestamptz default now(),
+  p_outside_fence_ok boolean default false
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_order public.orders;
+  v_distance double precision;
+  v_outside boolean := false;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+    and rider_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception using errcode = 'P0001', message = 'order_not_found',
+      detail = format('Order %s not found', p_order_id);
+  end if;
+
+  -- A retried call gets the arrived order back
+  if v_order.status = 'ARRIVED' then
+    return v_order;
+  end if;
+
+  if v_order.status <> 'EN_ROUTE' then
+    raise exception using errcode = 'P0001', message = 'invalid_status',
+      detail = format('Cannot arrive at an order in %s status', v_order.status);
+  end if;
+
+  if p_latitude is not null and p_longitude is not null
+     and (p_latitude not between -90 and 90 or p_longitude not between -180 and 180) then
+    raise exception using errcode = 'P0001', message = 'invalid_location',
+      detail = format('Invalid coordinates %s, %s', p_latitude, p_longitude);
+  end if;
+
+  if v_order.destination_latitude is not null and v_order.destination_longitude is not null then
+    if p_latitude is null or p_longitude is null then
+      v_outside := true;
+      if not p_outside_fence_ok then
+        raise exception using errcode = 'P0001', message = 'location_required',
+          detail = 'A GPS fix is required to confirm arrival';
+      end if;
+    else
+      v_distance := public.distance_meters(
+        p_latitude, p_longitude,
+        v_order.destination_latitude, v_order.destination_longitude
+      );
+      -- Give the benefit of the doubt up to the fix's own error margin, but no
+      -- more than the fence itself: accuracy comes from the client
+      v_outside := v_distance - least(greatest(coalesce(p_accuracy, 0), 0), v_order.arrival_radius_m)
+        > v_order.arrival_radius_m;
+      if v_outside and not p_outside_fence_ok then
+        raise exception using errcode = 'P0001', message = 'outside_geofence',
+          detail = format('%s m from the destination (fence %s m)', round(v_distance), v_order.arrival_radius_m);
+      end if;
+    end if;
+  end if;
+
+  -- Lets the status guard tell this path apart from a bare client update
+  perform set_config('app.marking_arrival', 'on', true);
+
+  update public.orders
+  set status = 'ARRIVED',
+      arrival_latitude = p_latitude,
+      arrival_longitude = p_longitude,
+      arrival_distance_m = v_distance,
+      arrival_flagged = v_outside,
+      arrived_at = coalesce(p_arrived_at, now())
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
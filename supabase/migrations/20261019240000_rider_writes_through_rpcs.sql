@@ -0,0 +1,60 @@
+-- Riders change orders only through the security definer functions.
+--
+-- The row-level security migration granted riders update on the status,
+-- payment, proof, delivery location and QR columns. Those are now written by
+-- start_trip (below), mark_arrived, complete_delivery and the generate-qr
+-- edge function, which validate them and keep the arrival and delivery
+-- quality flags in step. A plain update could bypass all of that, e.g. to
+-- move the proof or the delivery point after completion, so riders lose
+-- update access to orders altogether.
+--
+-- Errors are raised with SQLSTATE P0001 and a machine-readable code as the
+-- message, like complete_delivery.
+
+-- Also revokes the column-level grants
+revoke update on public.orders from authenticated;
+
+drop policy if exists "Riders can update their own orders" on public.orders;
+
+-- PENDING -> EN_ROUTE, the only status change riders made with a plain update
+create or replace function public.start_trip(p_order_id uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_order public.orders;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+    and rider_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception using errcode = 'P0001', message = 'order_not_found',
+      detail = format('Order %s not found', p_order_id);
+  end if;
+
+  -- A retried call gets the started order back
+  if v_order.status = 'EN_ROUTE' then
+    return v_order;
+  end if;
+
+  if v_order.status <> 'PENDING' then
+    raise exception using errcode = 'P0001', message = 'invalid_status',
+      detail = format('Cannot start a trip for an order in %s status', v_order.status);
+  end if;
+
+  update public.orders
+  set status = 'EN_ROUTE'
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke execute on function public.start_trip(uuid) from public, anon;
+grant execute on function public.start_trip(uuid) to authenticated;
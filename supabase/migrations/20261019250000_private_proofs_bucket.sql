@@ -0,0 +1,12 @@
+-- Make the proofs bucket private.
+--
+-- Proof photos carry the order id and the rider's GPS fix (watermark and
+-- EXIF), so they must not be readable by anyone holding the URL. With the
+-- bucket private, reads go through the "Riders can read proofs for their own
+-- orders" policy: the app opens a proof with a short-lived signed URL, and
+-- ops use the service role. orders.proof_url still names the object (see
+-- complete_delivery), it just no longer works as a plain link.
+
+update storage.buckets
+set public = false
+where id = 'proofs';
@@ -0,0 +1,81 @@
+-- Claim payment events atomically.
+--
+-- payrex-webhook looked an event up and inserted it in two steps, so two
+-- deliveries of the same event arriving together could both see it as
+-- unprocessed and both apply it (two PAID pushes, handlers run twice).
+-- claim_payment_event records the event and takes a processing lease in one
+-- call; a delivery that finds another one's lease still running does nothing.
+
+alter table public.payment_events
+  add column if not exists processing_started_at timestamptz;
+
+-- Returns one row:
+--   new          first delivery; this caller processes it
+--   retry        earlier deliveries failed or their lease ran out; this caller processes it
+--   duplicate    already processed, with its outcome
+--   in_progress  another delivery holds the lease
+create or replace function public.claim_payment_event(
+  p_id text,
+  p_provider text,
+  p_type text,
+  p_payment_intent_id text,
+  p_order_id uuid,
+  p_livemode boolean,
+  p_payload jsonb,
+  p_event_created_at timestamptz,
+  p_lease_seconds integer default 300
+)
+returns table (state text, outcome text)
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_event public.payment_events;
+begin
+  insert into public.payment_events (
+    id, provider, type, payment_intent_id, order_id, livemode, payload,
+    event_created_at, processing_started_at
+  )
+  values (
+    p_id, p_provider, p_type, p_payment_intent_id, p_order_id, p_livemode, p_payload,
+    p_event_created_at, now()
+  )
+  on conflict (id) do nothing;
+
+  if found then
+    return query select 'new'::text, null::text;
+    return;
+  end if;
+
+  -- Re-delivery: concurrent ones queue up on the row lock
+  select * into v_event
+  from public.payment_events
+  where id = p_id
+  for update;
+
+  update public.payment_events
+  set delivery_attempts = delivery_attempts + 1
+  where id = p_id;
+
+  if v_event.processed_at is not null then
+    return query select 'duplicate'::text, v_event.outcome;
+    return;
+  end if;
+
+  if v_event.processing_started_at > now() - make_interval(secs => p_lease_seconds) then
+    return query select 'in_progress'::text, null::text;
+    return;
+  end if;
+
+  update public.payment_events
+  set processing_started_at = now()
+  where id = p_id;
+
+  return query select 'retry'::text, null::text;
+end;
+$$;
+
+revoke execute on function public.claim_payment_event(text, text, text, text, uuid, boolean, jsonb, timestamptz, integer)
+  from public, anon, authenticated;
+grant execute on function public.claim_payment_event(text, text, text, text, uuid, boolean, jsonb, timestamptz, integer)
+  to service_role;
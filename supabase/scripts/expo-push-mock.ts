@@ -0,0 +1,131 @@
+/**
+ * Local Expo push endpoint
+ *
+ * Accepts the same requests as https://exp.host/--/api/v2/push/send and
+ * records them instead of delivering, so order-assignment and payment pushes
+ * can be checked without devices or the Expo service.
+ *
+ * Start the server:
+ *   deno run --allow-net --allow-env supabase/scripts/expo-push-mock.ts
+ *
+ * Point the functions at it (supabase/functions/.env):
+ *   EXPO_PUSH_URL=http://host.docker.internal:8788/--/api/v2/push/send
+ *
+ * Received pushes are listed at http://localhost:8788 and as JSON at
+ * http://localhost:8788/messages (DELETE it to clear).
+ *
+ * Tokens containing "unregistered" get a DeviceNotRegistered ticket, to check
+ * that stale tokens are removed from device_tokens.
+ * supabase/functions/_shared/push.test.ts runs the same checks automatically.
+ *
+ * Environment:
+ *   EXPO_PUSH_MOCK_PORT        Defaults to 8788
+ */
+
+const DEFAULT_PORT = 8788
+
+interface PushMessage {
+  to: string | string[]
+  title?: string
+  body?: string
+  data?: Record<string, unknown>
+  [key: string]: unknown
+}
+
+interface ReceivedPush {
+  at: string
+  to: string
+  title?: string
+  body?: string
+  data?: Record<string, unknown>
+  ticket: Record<string, unknown>
+}
+
+const received: ReceivedPush[] = []
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body, null, 2), { status, headers: { 'Content-Type': 'application/json' } })
+
+function ticketFor(token: string): Record<string, unknown> {
+  if (!/^Expo(nent)?PushToken\[.+\]$/.test(token)) {
+    return { status: 'error', message: `"${token}" is not a valid Expo push token`, details: { error: 'DeviceNotRegistered' } }
+  }
+  if (token.includes('unregistered')) {
+    return { status: 'error', message: `"${token}" is not a registered push notification recipient`, details: { error: 'DeviceNotRegistered' } }
+  }
+  return { status: 'ok', id: crypto.randomUUID() }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`)
+}
+
+function renderPage(): Response {
+  const rows = received
+    .slice()
+    .reverse()
+    .map((push) => `<tr>
+      <td>${escapeHtml(push.at)}</td>
+      <td><code>${escapeHtml(push.to)}</code></td>
+      <td><b>${escapeHtml(push.title ?? '')}</b><br>${escapeHtml(push.body ?? '')}</td>
+      <td><code>${escapeHtml(JSON.stringify(push.data ?? {}))}</code></td>
+      <td>${escapeHtml(String(push.ticket.status))}</td>
+    </tr>`)
+    .join('')
+
+  return new Response(`<!doctype html>
+<html><head><meta charset="utf-8"><meta http-equiv="refresh" content="3"><title>Expo push mock</title>
+<style>body{font-family:sans-serif;margin:2rem}table{border-collapse:collapse;width:100%}td,th{border:1px solid #ddd;padding:6px;text-align:left;vertical-align:top}</style>
+</head><body>
+<h1>Expo push mock</h1>
+<p>${received.length} push${received.length === 1 ? '' : 'es'} received</p>
+<table><tr><th>Received</th><th>To</th><th>Message</th><th>Data</th><th>Ticket</th></tr>${rows}</table>
+</body></html>`, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+}
+
+async function handlePush(req: Request): Promise<Response> {
+  let payload: PushMessage | PushMessage[]
+  try {
+    payload = await req.json()
+  } catch {
+    return json({ errors: [{ code: 'VALIDATION_ERROR', message: 'Invalid JSON body' }] }, 400)
+  }
+
+  const messages = Array.isArray(payload) ? payload : [payload]
+  if (messages.length > 100) {
+    return json({ errors: [{ code: 'PUSH_TOO_MANY_NOTIFICATIONS', message: 'At most 100 messages per request' }] }, 400)
+  }
+
+  const tickets: Record<string, unknown>[] = []
+  for (const message of messages) {
+    for (const to of Array.isArray(message.to) ? message.to : [message.to]) {
+      const ticket = ticketFor(to)
+      tickets.push(ticket)
+      received.push({ at: new Date().toISOString(), to, title: message.title, body: message.body, data: message.data, ticket })
+      console.log(`📨 ${to}: ${message.title ?? ''} - ${message.body ?? ''} (${ticket.status})`)
+    }
+  }
+
+  return json({ data: tickets })
+}
+
+export async function handleRequest(req: Request): Promise<Response> {
+  const { pathname } = new URL(req.url)
+
+  if (req.method === 'POST' && pathname === '/--/api/v2/push/send') return handlePush(req)
+  if (req.method === 'GET' && pathname === '/messages') return json(received)
+  if (req.method === 'DELETE' && pathname === '/messages') {
+    received.length = 0
+    return json({ cleared: true })
+  }
+  if (req.method === 'GET' && pathname === '/') return renderPage()
+
+  return json({ errors: [{ code: 'NOT_FOUND', message: `${req.method} ${pathname}` }] }, 404)
+}
+
+// Imported by supabase/functions/_shared/push.test.ts, which serves it on a free port
+if (import.meta.main) {
+  const port = Number(Deno.env.get('EXPO_PUSH_MOCK_PORT') ?? DEFAULT_PORT)
+  console.log(`Expo push mock listening on http://localhost:${port}`)
+  Deno.serve({ port }, handleRequest)
+}
@@ -0,0 +1,319 @@
+/**
+ * Local PayRex simulator
+ *
+ * Stands in for the PayRex payment intent API so the whole QRPH flow can run
+ * on a laptop: rider app -> generate-qr -> simulated payment -> payrex-webhook
+ * -> realtime PAID toast.
+ *
+ * Start the server:
+ *   deno run --allow-net --allow-env supabase/scripts/payrex-simulator.ts
+ *
+ * Point generate-qr at it (supabase/functions/.env):
+ *   PAYMENT_PROVIDER=payrex
+ *   PAYREX_API_URL=http://host.docker.internal:8787/api/v1
+ *
+ * Then pay (or fail, expire, refund...) an intent from http://localhost:8787
+ * or from another terminal:
+ *   deno run --allow-net --allow-env supabase/scripts/payrex-simulator.ts pay <intentId|orderId>
+ *
+ * Environment:
+ *   PAYREX_WEBHOOK_SECRET      Secret shared with payrex-webhook (required)
+ *   PAYREX_SIMULATOR_PORT      Defaults to 8787
+ *   WEBHOOK_URL                Defaults to http://127.0.0.1:54321/functions/v1/payrex-webhook
+ */
+
+import { PAYREX_SIGNATURE_HEADER, signPayrexPayload } from '../functions/_shared/payrexSignature.ts'
+import { buildQrphPayload, referenceLabelForOrder } from '../functions/_shared/qrph.ts'
+
+const DEFAULT_PORT = 8787
+const DEFAULT_WEBHOOK_URL = 'http://127.0.0.1:54321/functions/v1/payrex-webhook'
+
+type IntentStatus = 'awaiting_payment_method' | 'succeeded' | 'canceled'
+
+type SimulatorAction = 'pay' | 'fail' | 'expire' | 'cancel' | 'refund'
+
+interface SimulatedIntent {
+  id: string
+  resource: 'payment_intent'
+  amount: number // centavos
+  currency: string
+  description: string
+  status: IntentStatus
+  payment_methods: string[]
+  metadata: Record<string, string>
+  next_action: { type: 'display_qr'; qr_code: { data: string } }
+  livemode: false
+  created_at: number
+  updated_at: number
+}
+
+interface DeliveryLog {
+  at: string
+  eventType: string
+  intentId: string
+  status: number | string
+}
+
+// Which event each action sends, and the intent status it leaves behind
+const ACTIONS: Record<SimulatorAction, { eventType: string; status?: IntentStatus }> = {
+  pay: { eventType: 'payment_intent.succeeded', status: 'succeeded' },
+  fail: { eventType: 'payment_intent.payment_failed' },
+  expire: { eventType: 'payment_intent.expired', status: 'canceled' },
+  cancel: { eventType: 'payment_intent.canceled', status: 'canceled' },
+  refund: { eventType: 'refund.created' },
+}
+
+const intents = new Map<string, SimulatedIntent>()
+const deliveries: DeliveryLog[] = []
+
+const randomId = (prefix: string) => `${prefix}_${crypto.randomUUID().replace(/-/g, '')}`
+const nowSeconds = () => Math.floor(Date.now() / 1000)
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const payrexError = (status: number, code: string, detail: string) =>
+  json({ errors: [{ code, detail }] }, status)
+
+function findIntent(idOrOrderId: string): SimulatedIntent | undefined {
+  return intents.get(idOrOrderId) ??
+    // Fall back to the most recent intent for an order id
+    [...intents.values()].reverse().find((intent) => intent.metadata.order_id === idOrOrderId)
+}
+
+function createIntent(body: Record<string, unknown>): SimulatedIntent {
+  const amount = Number(body.amount)
+  const metadata = (body.metadata ?? {}) as Record<string, string>
+  const id = randomId('pi')
+
+  const intent: SimulatedIntent = {
+    id,
+    resource: 'payment_intent',
+    amount,
+    currency: String(body.currency ?? 'PHP'),
+    description: String(body.description ?? ''),
+    status: 'awaiting_payment_method',
+    payment_methods: (body.payment_methods as string[]) ?? ['qrph'],
+    metadata,
+    next_action: {
+      type: 'display_qr',
+      qr_code: {
+        data: buildQrphPayload({
+          merchant: {
+            name: 'PayRex Simulator',
+            city: 'Manila',
+            mcc: '5999',
+            acquirerId: 'SIMUPHM1XXX',
+            merchantId: 'SIMULATOR',
+          },
+          amount: amount / 100,
+          referenceLabel: metadata.order_id ? referenceLabelForOrder(metadata.order_id) : undefined,
+        }),
+      },
+    },
+    livemode: false,
+    created_at: nowSeconds(),
+    updated_at: nowSeconds(),
+  }
+
+  intents.set(id, intent)
+  console.log(`Created ${id} for order ${metadata.order_id ?? '?'} (₱${(amount / 100).toFixed(2)})`)
+  return intent
+}
+
+/**
+ * POST a correctly-shaped, signed PayRex event to payrex-webhook
+ */
+async function deliverEvent(eventType: string, intent: SimulatedIntent): Promise<DeliveryLog> {
+  const secret = Deno.env.get('PAYREX_WEBHOOK_SECRET')
+  const url = Deno.env.get('WEBHOOK_URL') ?? DEFAULT_WEBHOOK_URL
+  const log: DeliveryLog = { at: new Date().toISOString(), eventType, intentId: intent.id, status: 'not sent' }
+
+  // Refund events carry a refund object pointing back at its intent
+  const object = eventType.startsWith('refund.')
+    ? {
+        id: randomId('re'),
+        resource: 'refund',
+        amount: intent.amount,
+        currency: intent.currency,
+        status: 'succeeded',
+        payment_intent_id: intent.id,
+        metadata: intent.metadata,
+      }
+    : intent
+
+  const payload = JSON.stringify({
+    id: randomId('evt'),
+    resource: 'event',
+    type: eventType,
+    livemode: false,
+    created_at: nowSeconds(),
+    data: { object },
+  })
+
+  if (!secret) {
+    console.error('PAYREX_WEBHOOK_SECRET is not set; cannot sign webhook events')
+    log.status = 'missing secret'
+  } else {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [PAYREX_SIGNATURE_HEADER]: await signPayrexPayload(payload, secret),
+        },
+        body: payload,
+      })
+      log.status = response.status
+      console.log(`→ ${eventType} for ${intent.id}: ${response.status} ${await response.text()}`)
+    } catch (error) {
+      log.status = error instanceof Error ? error.message : 'delivery failed'
+      console.error(`Could not deliver ${eventType}:`, error)
+    }
+  }
+
+  deliveries.unshift(log)
+  return log
+}
+
+async function simulate(intent: SimulatedIntent, action: SimulatorAction): Promise<DeliveryLog> {
+  const { eventType, status } = ACTIONS[action]
+  if (status) {
+    intent.status = status
+    intent.updated_at = nowSeconds()
+  }
+  return deliverEvent(eventType, intent)
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+function renderPage(): Response {
+  const rows = [...intents.values()].reverse().map((intent) => {
+    const buttons = (Object.keys(ACTIONS) as SimulatorAction[])
+      .map((action) =>
+        `<form method="post" action="/simulate/${intent.id}/${action}"><button>${action}</button></form>`
+      )
+      .join('')
+    return `<tr>
+      <td><code>${intent.id}</code></td>
+      <td><code>${escapeHtml(intent.metadata.order_id ?? '')}</code></td>
+      <td>₱${(intent.amount / 100).toFixed(2)}</td>
+      <td>${intent.status}</td>
+      <td class="actions">${buttons}</td>
+    </tr>`
+  }).join('')
+
+  const log = deliveries.slice(0, 20).map((entry) =>
+    `<li>${entry.at} — ${entry.eventType} for <code>${entry.intentId}</code>: ${escapeHtml(String(entry.status))}</li>`
+  ).join('')
+
+  return new Response(`<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta http-equiv="refresh" content="5">
+  <title>PayRex Simulator</title>
+  <style>
+    body { font-family: sans-serif; margin: 24px; color: #333; }
+    table { border-collapse: collapse; width: 100%; }
+    td, th { border-bottom: 1px solid #e0e0e0; padding: 8px; text-align: left; }
+    .actions form { display: inline; margin-right: 4px; }
+  </style>
+</head>
+<body>
+  <h1>PayRex Simulator</h1>
+  <p>Webhook target: <code>${escapeHtml(Deno.env.get('WEBHOOK_URL') ?? DEFAULT_WEBHOOK_URL)}</code></p>
+  <table>
+    <tr><th>Intent</th><th>Order</th><th>Amount</th><th>Status</th><th>Simulate</th></tr>
+    ${rows || '<tr><td colspan="5">No payment intents yet. Generate a QR in the rider app.</td></tr>'}
+  </table>
+  <h2>Webhook deliveries</h2>
+  <ul>${log || '<li>None yet</li>'}</ul>
+</body>
+</html>`, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+}
+
+async function handleRequest(req: Request): Promise<Response> {
+  const url = new URL(req.url)
+  const path = url.pathname.replace(/\/+$/, '')
+
+  // --- Payment intent API (what generate-qr calls) ---
+  if (path.startsWith('/api/v1/payment_intents')) {
+    if (!req.headers.get('Authorization')?.startsWith('Basic ')) {
+      return payrexError(401, 'unauthorized', 'Missing Basic authorization')
+    }
+
+    if (path === '/api/v1/payment_intents' && req.method === 'POST') {
+      const body = await req.json().catch(() => null)
+      if (!body || !Number.isInteger(body.amount) || body.amount <= 0) {
+        return payrexError(400, 'parameter_invalid', 'amount must be a positive integer in centavos')
+      }
+      return json(createIntent(body))
+    }
+
+    const match = path.match(/^\/api\/v1\/payment_intents\/([^/]+)(\/cancel)?$/)
+    const intent = match ? intents.get(match[1]) : undefined
+    if (!intent) return payrexError(404, 'resource_not_found', 'Payment intent not found')
+
+    if (!match?.[2] && req.method === 'GET') return json(intent)
+
+    if (match?.[2] && req.method === 'POST') {
+      if (intent.status !== 'awaiting_payment_method') {
+        return payrexError(400, 'payment_intent_unexpected_state', `Payment intent is ${intent.status}`)
+      }
+      await simulate(intent, 'cancel')
+      return json(intent)
+    }
+
+    return payrexError(405, 'method_not_allowed', `${req.method} ${path} is not supported`)
+  }
+
+  // --- Tester controls (web page and CLI) ---
+  const simulateMatch = path.match(/^\/simulate\/([^/]+)\/(\w+)$/)
+  if (simulateMatch && req.method === 'POST') {
+    const [, id, action] = simulateMatch
+    if (!(action in ACTIONS)) return json({ error: `Unknown action ${action}` }, 400)
+
+    const intent = findIntent(id)
+    if (!intent) return json({ error: `No payment intent for ${id}` }, 404)
+
+    const delivery = await simulate(intent, action as SimulatorAction)
+
+    // Browser form posts go back to the page; the CLI gets JSON
+    return req.headers.get('Accept')?.includes('text/html')
+      ? Response.redirect(new URL('/', req.url), 303)
+      : json({ intent, delivery })
+  }
+
+  if (path === '' && req.method === 'GET') return renderPage()
+
+  return json({ error: 'Not found' }, 404)
+}
+
+async function runCli(action: string, id: string | undefined) {
+  if (!(action in ACTIONS) || !id) {
+    console.error(`Usage: payrex-simulator.ts <${Object.keys(ACTIONS).join('|')}> <intentId|orderId>`)
+    Deno.exit(1)
+  }
+
+  const port = Number(Deno.env.get('PAYREX_SIMULATOR_PORT')) || DEFAULT_PORT
+  const response = await fetch(`http://127.0.0.1:${port}/simulate/${id}/${action}`, { method: 'POST' })
+  console.log(JSON.stringify(await response.json(), null, 2))
+  if (!response.ok) Deno.exit(1)
+}
+
+if (import.meta.main) {
+  const [command, id] = Deno.args
+  if (command) {
+    await runCli(command, id)
+  } else {
+    const port = Number(Deno.env.get('PAYREX_SIMULATOR_PORT')) || DEFAULT_PORT
+    if (!Deno.env.get('PAYREX_WEBHOOK_SECRET')) {
+      console.warn('⚠️ PAYREX_WEBHOOK_SECRET is not set; webhook events will not be sent')
+    }
+    console.log(`PayRex simulator listening on http://localhost:${port}`)
+    Deno.serve({ port }, handleRequest)
+  }
+}
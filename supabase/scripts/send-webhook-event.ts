@@ -0,0 +1,118 @@
+/**
+ * Local test harness for payrex-webhook
+ *
+ * Builds a fake PayRex event, signs it the same way PayRex does and POSTs it to
+ * the locally served function. Useful for exercising the signature checks:
+ *
+ *   deno run --allow-net --allow-env supabase/scripts/send-webhook-event.ts <orderId> [options]
+ *
+ * Options:
+ *   --type=<event type>   Event type (default: payment_intent.succeeded), e.g.
+ *                         payment_intent.payment_failed, payment_intent.expired,
+ *                         payment_intent.canceled, refund.created
+ *   --amount=<php>        Amount in PHP (default: 100)
+ *   --event-id=<id>       Reuse an event id, to test duplicate delivery handling
+ *   --intent-id=<id>      Payment intent id (default: random), to test out-of-order events
+ *   --age=<seconds>       Backdate the signature timestamp, to test the replay window
+ *   --bad-signature       Sign with the wrong secret
+ *   --unsigned            Omit the Payrex-Signature header entirely
+ *
+ * Environment:
+ *   PAYREX_WEBHOOK_SECRET  Secret shared with the function (required)
+ *   MOCK_WEBHOOK_SECRET    Used instead when testing with PAYMENT_PROVIDER=mock
+ *   WEBHOOK_URL            Defaults to http://127.0.0.1:54321/functions/v1/payrex-webhook
+ */
+
+import { PAYREX_SIGNATURE_HEADER, signPayrexPayload } from '../functions/_shared/payrexSignature.ts'
+
+const DEFAULT_WEBHOOK_URL = 'http://127.0.0.1:54321/functions/v1/payrex-webhook'
+
+function parseArgs(args: string[]) {
+  const flags: Record<string, string | boolean> = {}
+  const positional: string[] = []
+  for (const arg of args) {
+    if (arg.startsWith('--')) {
+      const [key, value] = arg.slice(2).split('=')
+      flags[key] = value ?? true
+    } else {
+      positional.push(arg)
+    }
+  }
+  return { flags, positional }
+}
+
+async function main() {
+  const { flags, positional } = parseArgs(Deno.args)
+  const orderId = positional[0]
+  if (!orderId) {
+    console.error('Usage: send-webhook-event.ts <orderId> [--type=...] [--amount=...] [--age=...] [--bad-signature] [--unsigned]')
+    Deno.exit(1)
+  }
+
+  const secret = Deno.env.get('PAYREX_WEBHOOK_SECRET') ?? Deno.env.get('MOCK_WEBHOOK_SECRET')
+  if (!secret) {
+    console.error('PAYREX_WEBHOOK_SECRET (or MOCK_WEBHOOK_SECRET) must be set')
+    Deno.exit(1)
+  }
+
+  const type = typeof flags.type === 'string' ? flags.type : 'payment_intent.succeeded'
+  const amount = Number(flags.amount ?? 100)
+  const now = Math.floor(Date.now() / 1000)
+
+  const intentId = typeof flags['intent-id'] === 'string'
+    ? flags['intent-id']
+    : `pi_test_${crypto.randomUUID().replace(/-/g, '')}`
+
+  // Refund events carry a refund object pointing back at its intent
+  const object = type.startsWith('refund.')
+    ? {
+        id: `re_test_${crypto.randomUUID().replace(/-/g, '')}`,
+        resource: 'refund',
+        amount: Math.round(amount * 100),
+        currency: 'PHP',
+        status: 'succeeded',
+        payment_intent_id: intentId,
+        metadata: { order_id: orderId },
+      }
+    : {
+        id: intentId,
+        resource: 'payment_intent',
+        amount: Math.round(amount * 100),
+        currency: 'PHP',
+        status: type.split('.').pop(),
+        metadata: { order_id: orderId },
+      }
+
+  const event = {
+    id: typeof flags['event-id'] === 'string'
+      ? flags['event-id']
+      : `evt_test_${crypto.randomUUID().replace(/-/g, '')}`,
+    resource: 'event',
+    type,
+    livemode: false,
+    created_at: now,
+    data: { object },
+  }
+
+  const payload = JSON.stringify(event)
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+
+  if (!flags.unsigned) {
+    headers[PAYREX_SIGNATURE_HEADER] = await signPayrexPayload(
+      payload,
+      flags['bad-signature'] ? `${secret}_wrong` : secret,
+      { timestamp: now - Number(flags.age ?? 0) }
+    )
+  }
+
+  const url = Deno.env.get('WEBHOOK_URL') ?? DEFAULT_WEBHOOK_URL
+  console.log(`POST ${url} (${type}, order ${orderId})`)
+
+  const response = await fetch(url, { method: 'POST', headers, body: payload })
+  console.log(`${response.status} ${response.statusText}`)
+  console.log(await response.text())
+}
+
+if (import.meta.main) {
+  await main()
+}
@@ -0,0 +1,66 @@
+-- Local development seed, loaded by `supabase db reset`.
+-- Riders sign in with their email and the password "password123".
+
+-- Sample riders
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, recovery_token, email_change, email_change_token_new
+)
+values
+  ('00000000-0000-0000-0000-000000000000', '11111111-1111-1111-1111-111111111111', 'authenticated', 'authenticated',
+   'rider1@gospire.test', extensions.crypt('password123', extensions.gen_salt('bf')), now(),
+   '{"provider": "email", "providers": ["email"]}', '{"name": "Juan Dela Cruz"}', now(), now(), '', '', '', ''),
+  ('00000000-0000-0000-0000-000000000000', '22222222-2222-2222-2222-222222222222', 'authenticated', 'authenticated',
+   'rider2@gospire.test', extensions.crypt('password123', extensions.gen_salt('bf')), now(),
+   '{"provider": "email", "providers": ["email"]}', '{"name": "Maria Santos"}', now(), now(), '', '', '', '')
+on conflict (id) do nothing;
+
+insert into auth.identities (id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+select gen_random_uuid(), u.id, u.id::text,
+       jsonb_build_object('sub', u.id::text, 'email', u.email, 'email_verified', true),
+       'email', now(), now(), now()
+from auth.users u
+where u.id in ('11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222')
+on conflict do nothing;
+
+-- Sample orders in each stage of a delivery
+insert into public.orders (id, rider_id, customer_name, address, cod_amount, status, created_at)
+values
+  ('a0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+   'Ana Reyes', '123 Rizal Ave, Sta. Cruz, Manila', 450.00, 'PENDING', now() - interval '5 minutes'),
+  ('a0000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111',
+   'Carlo Mendoza', '45 Katipunan Ave, Loyola Heights, Quezon City', 1299.50, 'EN_ROUTE', now() - interval '20 minutes'),
+  ('a0000000-0000-0000-0000-000000000003', '11111111-1111-1111-1111-111111111111',
+   'Bea Villanueva', '8 Jupiter St, Bel-Air, Makati', 780.00, 'ARRIVED', now() - interval '40 minutes'),
+  ('a0000000-0000-0000-0000-000000000004', '22222222-2222-2222-2222-222222222222',
+   'Diego Ramos', '210 Shaw Blvd, Mandaluyong', 325.75, 'PENDING', now() - interval '10 minutes'),
+  ('a0000000-0000-0000-0000-000000000005', '22222222-2222-2222-2222-222222222222',
+   'Ella Garcia', '17 Aguirre Ave, BF Homes, Parañaque', 2150.00, 'ARRIVED', now() - interval '35 minutes')
+on conflict (id) do nothing;
+
+-- Already delivered orders, for the settlement screen
+insert into public.orders (
+  id, rider_id, customer_name, address, cod_amount, status, payment_method, cash_fallback_reason,
+  proof_url, delivery_latitude, delivery_longitude, delivery_timestamp, created_at
+)
+values
+  ('a0000000-0000-0000-0000-000000000006', '11111111-1111-1111-1111-111111111111',
+   'Franco Lim', '99 Ortigas Ave, Pasig', 560.00, 'COMPLETED', 'QRPH', null,
+   'no_storage_configured', 14.5869, 121.0614, now() - interval '2 hours', now() - interval '3 hours'),
+  ('a0000000-0000-0000-0000-000000000007', '11111111-1111-1111-1111-111111111111',
+   'Gina Torres', '5 Panay Ave, Quezon City', 890.00, 'COMPLETED', 'CASH', 'CUSTOMER_REQUEST',
+   'no_storage_configured', 14.6371, 121.0351, now() - interval '1 hour', now() - interval '2 hours')
+on conflict (id) do nothing;
+
+-- Lets the orders_push_on_assignment and orders_geocode_address triggers reach
+-- the local send-push and geocode-order functions. Seeded last so the sample
+-- orders above don't trigger pushes; they stay `pending` until geocoded with a
+-- backfill (see README). The secrets must match PUSH_WEBHOOK_SECRET and
+-- GEOCODE_WEBHOOK_SECRET in supabase/functions/.env.
+select vault.create_secret('http://host.docker.internal:54321/functions/v1', 'functions_url')
+where not exists (select 1 from vault.secrets where name = 'functions_url');
+select vault.create_secret('local-push-secret', 'push_webhook_secret')
+where not exists (select 1 from vault.secrets where name = 'push_webhook_secret');
+select vault.create_secret('local-geocode-secret', 'geocode_webhook_secret')
+where not exists (select 1 from vault.secrets where name = 'geocode_webhook_secret');
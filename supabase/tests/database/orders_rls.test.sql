@@ -0,0 +1,157 @@
+-- Row-level security on orders and proof photos.
+-- Run with `supabase test db`; everything happens in a transaction that is
+-- rolled back, so the seed data is left alone.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(18);
+
+-- Two riders with an order each, plus a proof photo for each order
+insert into auth.users (id, email)
+values
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'rls-rider-a@gospire.test'),
+  ('aaaaaaaa-0000-0000-0000-000000000002', 'rls-rider-b@gospire.test');
+
+insert into public.orders (id, rider_id, customer_name, address, cod_amount, status)
+values
+  ('bbbbbbbb-0000-0000-0000-00000000000a', 'aaaaaaaa-0000-0000-0000-000000000001',
+   'Own Customer', '1 Test St', 100.00, 'PENDING'),
+  ('bbbbbbbb-0000-0000-0000-00000000001a', 'aaaaaaaa-0000-0000-0000-000000000001',
+   'Own Arrived Customer', '2 Test St', 150.00, 'ARRIVED'),
+  ('bbbbbbbb-0000-0000-0000-00000000000b', 'aaaaaaaa-0000-0000-0000-000000000002',
+   'Other Customer', '3 Test St', 200.00, 'ARRIVED');
+
+insert into storage.objects (bucket_id, name)
+values
+  ('proofs', 'bbbbbbbb-0000-0000-0000-00000000001a_1.jpg'),
+  ('proofs', 'bbbbbbbb-0000-0000-0000-00000000000b_1.jpg');
+
+-- Rider A
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "aaaaaaaa-0000-0000-0000-000000000001", "role": "authenticated"}';
+
+select results_eq(
+  $$ select id from public.orders where id::text like 'bbbbbbbb-%' order by id $$,
+  $$ values ('bbbbbbbb-0000-0000-0000-00000000000a'::uuid), ('bbbbbbbb-0000-0000-0000-00000000001a'::uuid) $$,
+  'A rider reads their own orders'
+);
+
+select is_empty(
+  $$ select id from public.orders where id = 'bbbbbbbb-0000-0000-0000-00000000000b' $$,
+  'A rider cannot read another rider''s order'
+);
+
+select throws_ok(
+  $$ update public.orders set status = 'EN_ROUTE' where id = 'bbbbbbbb-0000-0000-0000-00000000000a' $$,
+  '42501', null,
+  'A rider cannot update their own order directly'
+);
+
+select throws_ok(
+  $$ update public.orders set proof_url = 'elsewhere' where id = 'bbbbbbbb-0000-0000-0000-00000000000b' $$,
+  '42501', null,
+  'A rider cannot update another rider''s order directly'
+);
+
+select lives_ok(
+  $$ select public.start_trip('bbbbbbbb-0000-0000-0000-00000000000a') $$,
+  'A rider can start a trip on their own order'
+);
+
+select throws_ok(
+  $$ select public.start_trip('bbbbbbbb-0000-0000-0000-00000000000b') $$,
+  'P0001', 'order_not_found',
+  'A rider cannot start a trip on another rider''s order'
+);
+
+select throws_ok(
+  $$ select public.mark_arrived('bbbbbbbb-0000-0000-0000-00000000000b') $$,
+  'P0001', 'order_not_found',
+  'A rider cannot mark another rider''s order as arrived'
+);
+
+select lives_ok(
+  $$ select public.complete_delivery(
+       'bbbbbbbb-0000-0000-0000-00000000001a', 'CASH',
+       'bbbbbbbb-0000-0000-0000-00000000001a_1.jpg',
+       14.5, 121.0, now(), 'CUSTOMER_REQUEST', 10, false, null
+     ) $$,
+  'A rider can complete their own order'
+);
+
+select is(
+  (select proof_url from public.orders where id = 'bbbbbbbb-0000-0000-0000-00000000001a'),
+  'bbbbbbbb-0000-0000-0000-00000000001a_1.jpg',
+  'The completed order keeps the proof photo''s object name'
+);
+
+select throws_ok(
+  $$ select public.complete_delivery(
+       'bbbbbbbb-0000-0000-0000-00000000000b', 'CASH',
+       'bbbbbbbb-0000-0000-0000-00000000000b_1.jpg',
+       14.5, 121.0, now(), 'CUSTOMER_REQUEST', 10, false, null
+     ) $$,
+  'P0001', 'order_not_found',
+  'A rider cannot complete another rider''s order'
+);
+
+select isnt_empty(
+  $$ select name from storage.objects where name = 'bbbbbbbb-0000-0000-0000-00000000001a_1.jpg' $$,
+  'A rider can read their own proof photo'
+);
+
+select is_empty(
+  $$ select name from storage.objects where name = 'bbbbbbbb-0000-0000-0000-00000000000b_1.jpg' $$,
+  'A rider cannot read another rider''s proof photo'
+);
+
+select throws_ok(
+  $$ insert into storage.objects (bucket_id, name) values ('proofs', 'bbbbbbbb-0000-0000-0000-00000000000b_2.jpg') $$,
+  '42501', null,
+  'A rider cannot upload a proof for another rider''s order'
+);
+
+-- Rider B still sees their order untouched
+set local request.jwt.claims to '{"sub": "aaaaaaaa-0000-0000-0000-000000000002", "role": "authenticated"}';
+
+select results_eq(
+  $$ select status from public.orders where id = 'bbbbbbbb-0000-0000-0000-00000000000b' $$,
+  $$ values ('ARRIVED'::text) $$,
+  'Another rider''s attempts leave the order unchanged'
+);
+
+-- Anonymous callers
+reset role;
+set local role anon;
+set local request.jwt.claims to '{"role": "anon"}';
+
+select throws_ok(
+  $$ select id from public.orders $$,
+  '42501', null,
+  'An anonymous caller cannot read orders'
+);
+
+select throws_ok(
+  $$ update public.orders set status = 'EN_ROUTE' $$,
+  '42501', null,
+  'An anonymous caller cannot update orders'
+);
+
+select throws_ok(
+  $$ select public.start_trip('bbbbbbbb-0000-0000-0000-00000000000a') $$,
+  '42501', null,
+  'An anonymous caller cannot start a trip'
+);
+
+select is_empty(
+  $$ select name from storage.objects where bucket_id = 'proofs' $$,
+  'An anonymous caller cannot read proof photos'
+);
+
+reset role;
+
+select * from finish();
+
+rollback;